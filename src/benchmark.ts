@@ -0,0 +1,100 @@
+import { Component, Entity } from "./types";
+import { EntityManager } from "./entity";
+import { ComponentManager } from "./component";
+
+class Position implements Component {
+	readonly __componentBrand?: never;
+
+	constructor(
+		public x = 0,
+		public y = 0,
+	) {}
+}
+
+class Velocity implements Component {
+	readonly __componentBrand?: never;
+
+	constructor(
+		public x = 0,
+		public y = 0,
+	) {}
+}
+
+class Burning implements Component {
+	readonly __componentBrand?: never;
+
+	constructor(public damage = 1) {}
+}
+
+class Poisoned implements Component {
+	readonly __componentBrand?: never;
+
+	constructor(public damage = 1) {}
+}
+
+class Slowed implements Component {
+	readonly __componentBrand?: never;
+
+	constructor(public factor = 0.5) {}
+}
+
+export interface TransitionBenchmarkResult {
+	/** Archetype transitions performed by each run of the status effect workload */
+	readonly transitions: number;
+	/** Seconds the workload took with cached archetype edges */
+	readonly edgeTime: number;
+	/** Seconds the same workload took looking archetypes up by signature, as before edges */
+	readonly signatureTime: number;
+	/** How many times faster the workload runs with edges */
+	readonly speedup: number;
+}
+
+/**
+ * Runs the status effect workload against a fresh component manager, which is where the edges live
+ * @returns The seconds it took
+ */
+function runWorkload(edges: boolean, entityCount: number, rounds: number, clock: () => number): number {
+	const entityManager = new EntityManager();
+	const components = new ComponentManager();
+	components.setEdgesEnabled(edges);
+
+	const entities: Entity[] = [];
+	for (let i = 0; i < entityCount; i++) {
+		const entity = entityManager.createEntity();
+		components.addComponent(entity, Position, new Position());
+		components.addComponent(entity, Velocity, new Velocity());
+		entities.push(entity);
+	}
+
+	const start = clock();
+	for (let round = 0; round < rounds; round++) {
+		for (const entity of entities) {
+			components.addComponent(entity, Burning, new Burning());
+			components.addComponent(entity, Poisoned, new Poisoned());
+			components.addComponent(entity, Slowed, new Slowed());
+			components.removeComponent(entity, Burning);
+			components.removeComponent(entity, Poisoned);
+			components.removeComponent(entity, Slowed);
+		}
+	}
+	return clock() - start;
+}
+
+/**
+ * Runs an add/remove-heavy status effect workload with and without cached archetype edges
+ * Not part of the published package; run it from a place's scripts, e.g. print(benchmarkTransitions())
+ * @param entityCount Entities that gain and lose status effects each round
+ * @param rounds How many times every entity cycles through the status effects
+ * @param clock Time source in seconds
+ */
+export function benchmarkTransitions(entityCount = 1000, rounds = 20, clock = os.clock): TransitionBenchmarkResult {
+	const signatureTime = runWorkload(false, entityCount, rounds, clock);
+	const edgeTime = runWorkload(true, entityCount, rounds, clock);
+
+	return {
+		transitions: entityCount * rounds * 6,
+		edgeTime,
+		signatureTime,
+		speedup: edgeTime > 0 ? signatureTime / edgeTime : math.huge,
+	};
+}
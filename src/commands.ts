@@ -0,0 +1,136 @@
+import { Entity, Component, ComponentClass, ComponentEntry } from "./types";
+import { EntityManager } from "./entity";
+import { World } from "./world";
+
+/**
+ * When the world plays back its command buffer during update and fixedUpdate
+ * - "system": after each system runs
+ * - "phase": after each phase finishes
+ * - "manual": only when playback is called
+ */
+export type CommandSyncPoint = "system" | "phase" | "manual";
+
+type Command =
+	| { readonly kind: "spawn"; readonly entity: Entity }
+	| { readonly kind: "destroy"; readonly entity: Entity }
+	| {
+			readonly kind: "add";
+			readonly entity: Entity;
+			readonly componentClass: ComponentClass;
+			readonly component: Component;
+	  }
+	| { readonly kind: "remove"; readonly entity: Entity; readonly componentClass: ComponentClass };
+
+/**
+ * Records structural changes so they can be applied later, outside of query iteration
+ */
+export class CommandBuffer {
+	private commands: Command[] = [];
+	private pendingSpawns = new Set<Entity>();
+
+	constructor(
+		private world: World,
+		private entityManager: EntityManager,
+	) {}
+
+	/**
+	 * Records spawning a new entity
+	 * The returned handle can be used in later commands and stored in components right away,
+	 * but it only exists in the world once the buffer is played back
+	 * @param components Components to add to the entity when it spawns
+	 * @returns The reserved entity handle
+	 */
+	spawn(components: ComponentEntry[] = []): Entity {
+		const entity = this.entityManager.reserveEntity();
+		this.pendingSpawns.add(entity);
+		this.commands.push({ kind: "spawn", entity });
+
+		for (const { class: componentClass, component } of components) {
+			this.commands.push({ kind: "add", entity, componentClass, component });
+		}
+
+		return entity;
+	}
+
+	/**
+	 * Records destroying an entity
+	 */
+	destroy(entity: Entity): this {
+		this.commands.push({ kind: "destroy", entity });
+		return this;
+	}
+
+	/**
+	 * Records adding a component to an entity
+	 */
+	add<T extends Component>(entity: Entity, componentClass: ComponentClass<T>, component: T): this {
+		this.commands.push({ kind: "add", entity, componentClass, component });
+		return this;
+	}
+
+	/**
+	 * Records removing a component from an entity
+	 */
+	remove<T extends Component>(entity: Entity, componentClass: ComponentClass<T>): this {
+		this.commands.push({ kind: "remove", entity, componentClass });
+		return this;
+	}
+
+	/**
+	 * Gets the number of recorded commands waiting for playback
+	 */
+	size(): number {
+		return this.commands.size();
+	}
+
+	/**
+	 * Applies all recorded commands to the world in order, then empties the buffer
+	 * Commands recorded during playback (e.g. by observers) are applied in the same call.
+	 * Commands targeting entities that no longer exist are skipped.
+	 */
+	playback(): void {
+		while (this.commands.size() > 0) {
+			const commands = this.commands;
+			this.commands = [];
+
+			this.world.batch(() => {
+				for (const command of commands) {
+					this.apply(command);
+				}
+			});
+		}
+	}
+
+	/**
+	 * Discards all recorded commands and releases handles reserved by pending spawns
+	 */
+	clear(): void {
+		for (const entity of this.pendingSpawns) {
+			this.entityManager.releaseReserved(entity);
+		}
+
+		this.commands.clear();
+		this.pendingSpawns.clear();
+	}
+
+	/**
+	 * Applies a single command
+	 */
+	private apply(command: Command): void {
+		if (command.kind === "spawn") {
+			this.pendingSpawns.delete(command.entity);
+			this.entityManager.commitReserved(command.entity);
+			return;
+		}
+
+		if (!this.world.entityExist(command.entity)) return;
+
+		if (command.kind === "destroy") {
+			this.world.destroyEntity(command.entity);
+		} else if (command.kind === "add") {
+			this.world.addComponent(command.entity, command.componentClass, command.component);
+		} else {
+			this.world.removeComponent(command.entity, command.componentClass);
+		}
+	}
+}
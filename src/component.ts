@@ -1,21 +1,79 @@
-import { Entity, Component, ComponentClass, ComponentId, Archetype, QueryCache } from "./types";
+import {
+	Entity,
+	Component,
+	ComponentClass,
+	ComponentEntry,
+	ComponentFactory,
+	ComponentId,
+	Archetype,
+	QueryCache,
+	QueryFilter,
+	RemovedComponent,
+	ComponentListener,
+	EntityDestroyedListener,
+	QueryObserver,
+	PooledComponent,
+	PooledComponentClass,
+	ComponentPoolStats,
+} from "./types";
+import { Profiler } from "./profiler";
+import { ArchetypeInfo } from "./inspect";
+
+/**
+ * Pool capacity for component types that don't set their own
+ */
+const DEFAULT_POOL_CAPACITY = 1000;
+
+/**
+ * Below this many entities, removeEntities swap-removes each one instead of compacting whole archetypes
+ */
+const COMPACTION_THRESHOLD = 32;
+
+interface ComponentPool {
+	readonly available: PooledComponent[];
+	/** Components handed out by acquireComponent and not yet released; only these return to the pool */
+	readonly acquired: Set<PooledComponent>;
+	capacity: number;
+	created: number;
+	reused: number;
+}
+
+/**
+ * Stand-in column for components a matching archetype doesn't store
+ */
+const EMPTY_COLUMN: Component[] = [];
 
 export class ComponentManager {
 	private componentIdCounter: ComponentId = 0;
 	private componentClassToId = new Map<ComponentClass, ComponentId>();
 	private componentIdToClass = new Map<ComponentId, ComponentClass>();
+	private tagIds = new Set<ComponentId>();
 
 	private archetypes = new Map<string, Archetype>();
+	private rootEdges = new Map<ComponentId, Archetype>();
+	private edgesEnabled = true;
 	private entityToArchetype = new Map<Entity, Archetype>();
 	private entityToIndex = new Map<Entity, number>();
 
 	private queryCache = new Map<string, QueryCache>();
 
 	private archetypesByComponentId = new Map<ComponentId, Set<Archetype>>();
-	private componentPoolsById = new Map<ComponentId, Component[]>();
-	private recycledComponents = new Map<ComponentId, Component[]>();
-	private batchInvalidation = false;
-	private pendingCacheInvalidation = false;
+	private pools = new Map<ComponentId, ComponentPool>();
+	private batchDepth = 0;
+	private pendingEvents: Array<() => void> = [];
+
+	private addedListeners = new Map<ComponentId, Set<ComponentListener>>();
+	private removedListeners = new Map<ComponentId, Set<ComponentListener>>();
+	private destroyedListeners = new Set<EntityDestroyedListener>();
+	private observers = new Map<QueryCache, Set<QueryObserver>>();
+
+	private changeTick = 1;
+	private lastRunTick = 0;
+	private removedComponents = new Map<ComponentId, RemovedComponent[]>();
+
+	private iterationDepth = 0;
+
+	private profiler?: Profiler;
 
 	/**
 	 * Gets or creates a component ID for a component class
@@ -27,8 +85,9 @@ export class ComponentManager {
 			this.componentClassToId.set(componentClass, id);
 			this.componentIdToClass.set(id, componentClass);
 			this.archetypesByComponentId.set(id, new Set());
-			this.componentPoolsById.set(id, []);
-			this.recycledComponents.set(id, []);
+			this.removedComponents.set(id, []);
+			this.addedListeners.set(id, new Set());
+			this.removedListeners.set(id, new Set());
 		}
 		return id;
 	}
@@ -50,24 +109,88 @@ export class ComponentManager {
 		if (!archetype) {
 			archetype = {
 				signature: [...componentIds],
+				signatureSet: new Set(componentIds),
 				entities: [],
 				componentArrays: new Map(),
+				addedTicks: new Map(),
+				changedTicks: new Map(),
+				addEdges: new Map(),
+				removeEdges: new Map(),
 			};
 
 			for (const componentId of componentIds) {
+				this.archetypesByComponentId.get(componentId)!.add(archetype);
+				if (this.tagIds.has(componentId)) continue;
+
 				const componentArray: Component[] = [];
 				archetype.componentArrays.set(componentId, componentArray);
-
-				this.archetypesByComponentId.get(componentId)!.add(archetype);
+				archetype.addedTicks.set(componentId, []);
+				archetype.changedTicks.set(componentId, []);
 			}
 
 			this.archetypes.set(signature, archetype);
-			this.scheduleQueryCacheInvalidation();
+
+			for (const [, cache] of this.queryCache) {
+				if (this.archetypeMatches(archetype, cache)) {
+					cache.archetypes.push(archetype);
+				}
+			}
 		}
 
 		return archetype;
 	}
 
+	/**
+	 * Follows or creates the add edge from an archetype, or from the empty archetype
+	 */
+	private getArchetypeWith(archetype: Archetype | undefined, componentId: ComponentId): Archetype {
+		if (!this.edgesEnabled) {
+			return this.getOrCreateArchetype([...(archetype?.signature ?? []), componentId].sort((a, b) => a < b));
+		}
+
+		const edges = archetype ? archetype.addEdges : this.rootEdges;
+		let target = edges.get(componentId);
+
+		if (!target) {
+			const signature = [...(archetype?.signature ?? []), componentId].sort((a, b) => a < b);
+			target = this.getOrCreateArchetype(signature);
+			edges.set(componentId, target);
+			if (archetype) {
+				target.removeEdges.set(componentId, archetype);
+			}
+		}
+
+		return target;
+	}
+
+	/**
+	 * Follows or creates the remove edge from an archetype
+	 * The caller guarantees the resulting signature is not empty
+	 */
+	private getArchetypeWithout(archetype: Archetype, componentId: ComponentId): Archetype {
+		if (!this.edgesEnabled) {
+			return this.getOrCreateArchetype(archetype.signature.filter((id) => id !== componentId));
+		}
+
+		let target = archetype.removeEdges.get(componentId);
+
+		if (!target) {
+			target = this.getOrCreateArchetype(archetype.signature.filter((id) => id !== componentId));
+			archetype.removeEdges.set(componentId, target);
+			target.addEdges.set(componentId, archetype);
+		}
+
+		return target;
+	}
+
+	/**
+	 * Turns cached archetype edges on or off; without them every transition looks its target up by signature
+	 * Only meant for benchmarkTransitions, which compares the edges against the signature lookup they replaced
+	 */
+	setEdgesEnabled(enabled: boolean): void {
+		this.edgesEnabled = enabled;
+	}
+
 	/**
 	 * Optimized entity moving with batch operations
 	 */
@@ -77,11 +200,15 @@ export class ComponentManager {
 
 		const newIndex = toArchetype.entities.size();
 
-		for (const componentId of fromArchetype.signature) {
+		for (const [componentId, sourceArray] of fromArchetype.componentArrays) {
 			const targetArray = toArchetype.componentArrays.get(componentId);
 			if (targetArray) {
-				const sourceArray = fromArchetype.componentArrays.get(componentId)!;
 				targetArray.push(sourceArray[entityIndex]);
+
+				const addedTicks = fromArchetype.addedTicks.get(componentId)!;
+				const changedTicks = fromArchetype.changedTicks.get(componentId)!;
+				toArchetype.addedTicks.get(componentId)!.push(addedTicks[entityIndex]);
+				toArchetype.changedTicks.get(componentId)!.push(changedTicks[entityIndex]);
 			}
 		}
 
@@ -90,6 +217,26 @@ export class ComponentManager {
 		toArchetype.entities.push(entity);
 		this.entityToArchetype.set(entity, toArchetype);
 		this.entityToIndex.set(entity, newIndex);
+		this.profiler?.recordArchetypeMoves();
+	}
+
+	/**
+	 * Appends an entity without an archetype to the end of one
+	 */
+	private placeEntity(entity: Entity, archetype: Archetype): void {
+		archetype.entities.push(entity);
+		this.entityToArchetype.set(entity, archetype);
+		this.entityToIndex.set(entity, archetype.entities.size() - 1);
+		this.profiler?.recordArchetypeMoves();
+	}
+
+	/**
+	 * Errors if archetypes are being iterated column by column, since moving entities would reorder them
+	 */
+	assertUnlocked(): void {
+		if (this.iterationDepth > 0) {
+			error("[ecs-lite] Structural changes are not allowed during column iteration; use world.commands instead");
+		}
 	}
 
 	/**
@@ -104,83 +251,273 @@ export class ComponentManager {
 			archetype.entities[entityIndex] = lastEntity;
 			this.entityToIndex.set(lastEntity, entityIndex);
 
-			for (const [componentId, componentArray] of archetype.componentArrays) {
+			for (const [, componentArray] of archetype.componentArrays) {
 				componentArray[entityIndex] = componentArray[lastIndex];
 			}
+			for (const [, ticks] of archetype.addedTicks) {
+				ticks[entityIndex] = ticks[lastIndex];
+			}
+			for (const [, ticks] of archetype.changedTicks) {
+				ticks[entityIndex] = ticks[lastIndex];
+			}
 		}
 
 		archetype.entities.pop();
 		for (const [, componentArray] of archetype.componentArrays) {
-			const removedComponent = componentArray.pop();
-			if (removedComponent) {
-				const componentId = this.getComponentIdFromArray(componentArray, archetype);
-				if (componentId !== undefined) {
-					this.recycleComponent(componentId, removedComponent);
-				}
-			}
+			componentArray.pop();
+		}
+		for (const [, ticks] of archetype.addedTicks) {
+			ticks.pop();
+		}
+		for (const [, ticks] of archetype.changedTicks) {
+			ticks.pop();
 		}
 	}
 
 	/**
-	 * Helper to find component ID from array (optimization helper)
+	 * Attaches or detaches a profiler that records query cache use and archetype moves
 	 */
-	private getComponentIdFromArray(componentArray: Component[], archetype: Archetype): ComponentId | undefined {
-		for (const [componentId, array] of archetype.componentArrays) {
-			if (array === componentArray) {
-				return componentId;
-			}
+	setProfiler(profiler: Profiler | undefined): void {
+		this.profiler = profiler;
+	}
+
+	/**
+	 * Takes a component from its type's pool, constructing one if the pool is empty
+	 * Components it hands out are reset and returned to the pool when they leave storage; others are left alone
+	 */
+	acquireComponent<T extends PooledComponent>(componentClass: PooledComponentClass<T>): T {
+		const pool = this.getPool(this.getComponentId(componentClass));
+		const component = pool.available.pop();
+		if (component !== undefined) {
+			pool.reused++;
+			pool.acquired.add(component);
+			return component as T;
 		}
-		return undefined;
+
+		pool.created++;
+		const created = new componentClass();
+		pool.acquired.add(created);
+		return created;
 	}
 
 	/**
-	 * Component recycling for memory efficiency
+	 * Sets how many components a type's pool keeps, dropping any beyond it
 	 */
-	private recycleComponent(componentId: ComponentId, component: Component): void {
-		const recycled = this.recycledComponents.get(componentId);
-		if (recycled && recycled.size() < 1000) {
-			recycled.push(component);
+	setPoolCapacity<T extends PooledComponent>(componentClass: PooledComponentClass<T>, capacity: number): void {
+		const pool = this.getPool(this.getComponentId(componentClass));
+		pool.capacity = math.max(capacity, 0);
+		while (pool.available.size() > pool.capacity) {
+			pool.available.pop();
 		}
 	}
 
 	/**
-	 * Get recycled component or create new one
+	 * Gets usage of every component pool, in component ID order
 	 */
-	private getOrCreateComponent<T extends Component>(componentClass: ComponentClass<T>, ...args: never[]): T {
-		const componentId = this.getComponentId(componentClass);
-		const recycled = this.recycledComponents.get(componentId);
+	getPoolStats(): ComponentPoolStats[] {
+		const componentIds: ComponentId[] = [];
+		for (const [componentId] of this.pools) {
+			componentIds.push(componentId);
+		}
+		componentIds.sort((a, b) => a < b);
+
+		return componentIds.map((componentId) => {
+			const pool = this.pools.get(componentId)!;
+			return {
+				class: this.componentIdToClass.get(componentId)!,
+				available: pool.available.size(),
+				capacity: pool.capacity,
+				created: pool.created,
+				reused: pool.reused,
+			};
+		});
+	}
 
-		if (recycled && recycled.size() > 0) {
-			const component = recycled.pop() as T;
-			return component;
+	private getPool(componentId: ComponentId): ComponentPool {
+		let pool = this.pools.get(componentId);
+		if (!pool) {
+			pool = { available: [], acquired: new Set(), capacity: DEFAULT_POOL_CAPACITY, created: 0, reused: 0 };
+			this.pools.set(componentId, pool);
 		}
+		return pool;
+	}
 
-		return new componentClass(...args);
+	/**
+	 * Returns a component that left storage to its type's pool, if it was acquired from that pool
+	 * Runs as a lifecycle event, so removal listeners and observers see the component before it's reset
+	 * @param recycle False when the component lives on elsewhere, e.g. in another world; the pool only forgets it
+	 */
+	private releaseComponent(componentId: ComponentId, component: Component, recycle = true): void {
+		const pool = this.pools.get(componentId);
+		if (!pool || !pool.acquired.delete(component as PooledComponent) || !recycle) return;
+
+		this.dispatch(() => {
+			if (pool.available.size() >= pool.capacity) return;
+
+			const pooled = component as PooledComponent;
+			pooled.reset();
+			pool.available.push(pooled);
+		});
 	}
 
 	/**
 	 * Batch operations support
+	 * Batches nest; lifecycle events are deferred until the outermost batch ends
+	 * Every structural change runs as its own batch, so callbacks only fire once the entity has finished moving
 	 */
 	startBatch(): void {
-		this.batchInvalidation = true;
+		this.batchDepth++;
 	}
 
 	endBatch(): void {
-		this.batchInvalidation = false;
-		if (this.pendingCacheInvalidation) {
-			this.invalidateQueryCaches();
-			this.pendingCacheInvalidation = false;
+		this.batchDepth--;
+		if (this.batchDepth > 0) return;
+
+		while (this.pendingEvents.size() > 0) {
+			const events = this.pendingEvents;
+			this.pendingEvents = [];
+			for (const event of events) {
+				event();
+			}
 		}
 	}
 
 	/**
-	 * Optimized cache invalidation
+	 * Registers a callback fired when a component is added to an entity
+	 * @returns A function that disconnects the callback
+	 */
+	onComponentAdded<T extends Component>(
+		componentClass: ComponentClass<T>,
+		callback: ComponentListener<T>,
+	): () => void {
+		const listeners = this.addedListeners.get(this.getComponentId(componentClass))!;
+		listeners.add(callback as ComponentListener);
+		return () => listeners.delete(callback as ComponentListener);
+	}
+
+	/**
+	 * Registers a callback fired when a component is removed from an entity
+	 * The callback receives the outgoing component value
+	 * @returns A function that disconnects the callback
+	 */
+	onComponentRemoved<T extends Component>(
+		componentClass: ComponentClass<T>,
+		callback: ComponentListener<T>,
+	): () => void {
+		const listeners = this.removedListeners.get(this.getComponentId(componentClass))!;
+		listeners.add(callback as ComponentListener);
+		return () => listeners.delete(callback as ComponentListener);
+	}
+
+	/**
+	 * Registers a callback fired once an entity is destroyed, with the components it had
+	 * @returns A function that disconnects the callback
 	 */
-	private scheduleQueryCacheInvalidation(): void {
-		if (this.batchInvalidation) {
-			this.pendingCacheInvalidation = true;
+	onEntityDestroyed(callback: EntityDestroyedListener): () => void {
+		this.destroyedListeners.add(callback);
+		return () => this.destroyedListeners.delete(callback);
+	}
+
+	/**
+	 * Fires entity destroyed callbacks, capturing the entity's components before they are removed
+	 */
+	notifyEntityDestroyed(entity: Entity): void {
+		if (this.destroyedListeners.size() === 0) return;
+
+		const components = this.getEntityComponents(entity);
+		this.dispatch(() => {
+			for (const listener of this.destroyedListeners) {
+				listener(entity, components);
+			}
+		});
+	}
+
+	/**
+	 * Watches for entities starting or stopping matching a filter as they move between archetypes
+	 * Added and changed components in the filter only count as required
+	 * @returns A function that stops the observer
+	 */
+	observe(filter: QueryFilter, observer: QueryObserver): () => void {
+		if (filter.all.size() === 0 && (filter.any === undefined || filter.any.size() === 0)) {
+			warn("[ecs-lite] Cannot observe a query without required or any-of components");
+			return () => {};
+		}
+
+		const cache = this.resolveQuery(filter);
+
+		let observers = this.observers.get(cache);
+		if (!observers) {
+			observers = new Set();
+			this.observers.set(cache, observers);
+		}
+		observers.add(observer);
+
+		const observing = observers;
+		return () => {
+			observing.delete(observer);
+			if (observing.size() === 0 && this.observers.get(cache) === observing) {
+				this.observers.delete(cache);
+			}
+		};
+	}
+
+	/**
+	 * Notifies observers of queries an entity enters or exits by moving between two archetypes
+	 * @param from The archetype the entity leaves, or undefined if it had no components
+	 * @param to The archetype the entity joins, or undefined if it's losing all its components
+	 */
+	private notifyObservers(
+		entity: Entity,
+		from: Archetype | undefined,
+		to: Archetype | undefined,
+		event: keyof QueryObserver,
+	): void {
+		if (this.observers.size() === 0) return;
+
+		const source = event === "onEnter" ? to : from;
+		const target = event === "onEnter" ? from : to;
+		if (source === undefined) return;
+
+		for (const [cache, observers] of this.observers) {
+			if (!this.archetypeMatches(source, cache)) continue;
+			if (target !== undefined && this.archetypeMatches(target, cache)) continue;
+
+			for (const observer of observers) {
+				const callback = observer[event];
+				if (callback !== undefined) {
+					this.dispatch(() => callback(entity));
+				}
+			}
+		}
+	}
+
+	/**
+	 * Fires component callbacks for one component ID
+	 */
+	private notifyComponent(
+		listenersById: Map<ComponentId, Set<ComponentListener>>,
+		componentId: ComponentId,
+		entity: Entity,
+		component: Component,
+	): void {
+		const listeners = listenersById.get(componentId)!;
+		if (listeners.size() === 0) return;
+
+		this.dispatch(() => {
+			for (const listener of listeners) {
+				listener(entity, component);
+			}
+		});
+	}
+
+	/**
+	 * Runs an event now, or queues it until the current batch ends
+	 */
+	private dispatch(event: () => void): void {
+		if (this.batchDepth > 0) {
+			this.pendingEvents.push(event);
 		} else {
-			this.invalidateQueryCaches();
+			event();
 		}
 	}
 
@@ -188,37 +525,256 @@ export class ComponentManager {
 	 * Fast component addition with minimal archetype transitions
 	 */
 	addComponent<T extends Component>(entity: Entity, componentClass: ComponentClass<T>, component: T): void {
-		const componentId = this.getComponentId(componentClass);
-		const currentArchetype = this.entityToArchetype.get(entity);
+		this.startBatch();
+		try {
+			const componentId = this.getComponentId(componentClass);
+			if (!this.assertNotTag(componentId)) return;
+
+			const currentArchetype = this.entityToArchetype.get(entity);
 
-		if (currentArchetype) {
-			if (currentArchetype.componentArrays.has(componentId)) {
+			if (currentArchetype && currentArchetype.componentArrays.has(componentId)) {
 				const entityIndex = this.entityToIndex.get(entity)!;
 				const componentArray = currentArchetype.componentArrays.get(componentId)!;
+				const previous = componentArray[entityIndex];
 				componentArray[entityIndex] = component;
+				currentArchetype.changedTicks.get(componentId)![entityIndex] = this.changeTick;
+				if (previous !== component) {
+					this.releaseComponent(componentId, previous);
+				}
 				return;
 			}
 
-			const newSignature = [...currentArchetype.signature, componentId].sort((a, b) => a < b);
-			const newArchetype = this.getOrCreateArchetype(newSignature);
+			this.assertUnlocked();
+			const newArchetype = this.getArchetypeWith(currentArchetype, componentId);
+
+			if (currentArchetype) {
+				this.moveEntity(entity, currentArchetype, newArchetype);
+				this.notifyObservers(entity, currentArchetype, newArchetype, "onExit");
+			} else {
+				this.placeEntity(entity, newArchetype);
+			}
+
+			const newIndex = newArchetype.entities.size() - 1;
+			newArchetype.componentArrays.get(componentId)![newIndex] = component;
+			newArchetype.addedTicks.get(componentId)![newIndex] = this.changeTick;
+			newArchetype.changedTicks.get(componentId)![newIndex] = this.changeTick;
+
+			this.notifyComponent(this.addedListeners, componentId, entity, component);
+			this.notifyObservers(entity, currentArchetype, newArchetype, "onEnter");
+		} finally {
+			this.endBatch();
+		}
+	}
+
+	/**
+	 * Adds several components with a single archetype transition
+	 * Components the entity already has are replaced in place; later entries win over earlier ones
+	 */
+	addComponents(entity: Entity, entries: ComponentEntry[]): void {
+		this.startBatch();
+		try {
+			const incoming = new Map<ComponentId, Component>();
+			const order: ComponentId[] = [];
+			for (const entry of entries) {
+				const componentId = this.getComponentId(entry.class);
+				if (!this.assertNotTag(componentId)) continue;
+
+				if (!incoming.has(componentId)) {
+					order.push(componentId);
+				}
+				incoming.set(componentId, entry.component);
+			}
+
+			const currentArchetype = this.entityToArchetype.get(entity);
+			const addedIds: ComponentId[] = [];
+
+			for (const componentId of order) {
+				if (currentArchetype && currentArchetype.componentArrays.has(componentId)) {
+					const entityIndex = this.entityToIndex.get(entity)!;
+					const componentArray = currentArchetype.componentArrays.get(componentId)!;
+					const previous = componentArray[entityIndex];
+					componentArray[entityIndex] = incoming.get(componentId)!;
+					currentArchetype.changedTicks.get(componentId)![entityIndex] = this.changeTick;
+					if (previous !== componentArray[entityIndex]) {
+						this.releaseComponent(componentId, previous);
+					}
+				} else {
+					addedIds.push(componentId);
+				}
+			}
+
+			if (addedIds.size() === 0) return;
+			this.assertUnlocked();
+
+			let newArchetype = this.getArchetypeWith(currentArchetype, addedIds[0]);
+			for (let i = 1; i < addedIds.size(); i++) {
+				newArchetype = this.getArchetypeWith(newArchetype, addedIds[i]);
+			}
+
+			if (currentArchetype) {
+				this.moveEntity(entity, currentArchetype, newArchetype);
+				this.notifyObservers(entity, currentArchetype, newArchetype, "onExit");
+			} else {
+				this.placeEntity(entity, newArchetype);
+			}
 
-			this.moveEntity(entity, currentArchetype, newArchetype);
 			const newIndex = newArchetype.entities.size() - 1;
-			const componentArray = newArchetype.componentArrays.get(componentId)!;
-			componentArray[newIndex] = component;
-		} else {
-			const newArchetype = this.getOrCreateArchetype([componentId]);
-			const newIndex = newArchetype.entities.size();
+			for (const componentId of addedIds) {
+				newArchetype.componentArrays.get(componentId)![newIndex] = incoming.get(componentId)!;
+				newArchetype.addedTicks.get(componentId)![newIndex] = this.changeTick;
+				newArchetype.changedTicks.get(componentId)![newIndex] = this.changeTick;
+			}
+
+			for (const componentId of addedIds) {
+				this.notifyComponent(this.addedListeners, componentId, entity, incoming.get(componentId)!);
+			}
+			this.notifyObservers(entity, currentArchetype, newArchetype, "onEnter");
+		} finally {
+			this.endBatch();
+		}
+	}
+
+	/**
+	 * Places entities that have no components yet straight into one archetype, filling its columns in bulk
+	 * @param entities The new entities
+	 * @param factories Create each entity's components
+	 */
+	spawnBatch(entities: Entity[], factories: ComponentFactory[]): void {
+		this.startBatch();
+		try {
+			const creators = new Map<ComponentId, (index: number) => Component>();
+			const order: ComponentId[] = [];
+			for (const factory of factories) {
+				const componentId = this.getComponentId(factory.class);
+				if (!this.assertNotTag(componentId)) continue;
+
+				if (!creators.has(componentId)) {
+					order.push(componentId);
+				}
+				creators.set(componentId, factory.create);
+			}
+
+			const count = entities.size();
+			if (order.size() === 0 || count === 0) return;
+			this.assertUnlocked();
+
+			let archetype = this.getArchetypeWith(undefined, order[0]);
+			for (let i = 1; i < order.size(); i++) {
+				archetype = this.getArchetypeWith(archetype, order[i]);
+			}
+
+			const start = archetype.entities.size();
+			for (let i = 0; i < count; i++) {
+				archetype.entities[start + i] = entities[i];
+				this.entityToArchetype.set(entities[i], archetype);
+				this.entityToIndex.set(entities[i], start + i);
+			}
+			this.profiler?.recordArchetypeMoves(count);
+
+			for (const componentId of order) {
+				const create = creators.get(componentId)!;
+				const componentArray = archetype.componentArrays.get(componentId)!;
+				const addedTicks = archetype.addedTicks.get(componentId)!;
+				const changedTicks = archetype.changedTicks.get(componentId)!;
+				for (let i = 0; i < count; i++) {
+					componentArray[start + i] = create(i);
+					addedTicks[start + i] = this.changeTick;
+					changedTicks[start + i] = this.changeTick;
+				}
+			}
+
+			for (const componentId of order) {
+				const componentArray = archetype.componentArrays.get(componentId)!;
+				for (let i = 0; i < count; i++) {
+					this.notifyComponent(this.addedListeners, componentId, entities[i], componentArray[start + i]);
+				}
+			}
+			for (const entity of entities) {
+				this.notifyObservers(entity, undefined, archetype, "onEnter");
+			}
+		} finally {
+			this.endBatch();
+		}
+	}
+
+	/**
+	 * Adds a tag, which takes part in archetype signatures and queries but stores nothing per entity
+	 * A class used as a tag cannot also be used as a component
+	 */
+	addTag<T extends Component>(entity: Entity, tagClass: ComponentClass<T>): void {
+		this.startBatch();
+		try {
+			const tagId = this.getComponentId(tagClass);
+			if (!this.tagIds.has(tagId)) {
+				if (this.archetypesByComponentId.get(tagId)!.size() > 0) {
+					warn(`[ecs-lite] ${tostring(tagClass)} is already used as a component and cannot be a tag`);
+					return;
+				}
+				this.tagIds.add(tagId);
+			}
+
+			const currentArchetype = this.entityToArchetype.get(entity);
+			if (currentArchetype && currentArchetype.signatureSet.has(tagId)) return;
+			this.assertUnlocked();
 
-			newArchetype.entities.push(entity);
-			const componentArray = newArchetype.componentArrays.get(componentId)!;
-			componentArray.push(component);
+			const newArchetype = this.getArchetypeWith(currentArchetype, tagId);
 
-			this.entityToArchetype.set(entity, newArchetype);
-			this.entityToIndex.set(entity, newIndex);
+			if (currentArchetype) {
+				this.moveEntity(entity, currentArchetype, newArchetype);
+				this.notifyObservers(entity, currentArchetype, newArchetype, "onExit");
+			} else {
+				this.placeEntity(entity, newArchetype);
+			}
+			this.notifyObservers(entity, currentArchetype, newArchetype, "onEnter");
+		} finally {
+			this.endBatch();
 		}
+	}
+
+	/**
+	 * Gets every tag an entity has
+	 */
+	getEntityTags(entity: Entity): ComponentClass[] {
+		const archetype = this.entityToArchetype.get(entity);
+		if (!archetype) return [];
+
+		return archetype.signature
+			.filter((componentId) => this.tagIds.has(componentId))
+			.map((componentId) => this.componentIdToClass.get(componentId)!);
+	}
 
-		this.scheduleQueryCacheInvalidation();
+	/**
+	 * Checks if a class is used as a tag
+	 */
+	isTag<T extends Component>(componentClass: ComponentClass<T>): boolean {
+		const componentId = this.componentClassToId.get(componentClass);
+		return componentId !== undefined && this.tagIds.has(componentId);
+	}
+
+	/**
+	 * Warns and returns false if a component ID belongs to a tag
+	 */
+	private assertNotTag(componentId: ComponentId): boolean {
+		if (!this.tagIds.has(componentId)) return true;
+
+		warn(`[ecs-lite] ${tostring(this.componentIdToClass.get(componentId))} is a tag; use addTag instead`);
+		return false;
+	}
+
+	/**
+	 * Flags an entity's component as changed at the current tick
+	 * Call this after mutating a component in place so change queries pick it up
+	 * @returns True if the entity has the component, false otherwise
+	 */
+	markChanged<T extends Component>(entity: Entity, componentClass: ComponentClass<T>): boolean {
+		const archetype = this.entityToArchetype.get(entity);
+		if (!archetype) return false;
+
+		const ticks = archetype.changedTicks.get(this.getComponentId(componentClass));
+		if (!ticks) return false;
+
+		ticks[this.entityToIndex.get(entity)!] = this.changeTick;
+		return true;
 	}
 
 	/**
@@ -238,6 +794,67 @@ export class ComponentManager {
 		return componentArray[entityIndex] as T;
 	}
 
+	/**
+	 * Gets every component an entity has, keyed by component class
+	 */
+	getEntityComponents(entity: Entity): Map<ComponentClass, Component> {
+		const result = new Map<ComponentClass, Component>();
+		const archetype = this.entityToArchetype.get(entity);
+		if (!archetype) return result;
+
+		const entityIndex = this.entityToIndex.get(entity)!;
+		for (const [componentId, componentArray] of archetype.componentArrays) {
+			result.set(this.componentIdToClass.get(componentId)!, componentArray[entityIndex]);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Gets an entity's components in component ID order
+	 */
+	getComponentEntries(entity: Entity): ComponentEntry[] {
+		const archetype = this.entityToArchetype.get(entity);
+		if (!archetype) return [];
+
+		const entityIndex = this.entityToIndex.get(entity)!;
+		const entries: ComponentEntry[] = [];
+		for (const componentId of archetype.signature) {
+			const componentArray = archetype.componentArrays.get(componentId);
+			if (componentArray) {
+				entries.push({
+					class: this.componentIdToClass.get(componentId)!,
+					component: componentArray[entityIndex],
+				});
+			}
+		}
+		return entries;
+	}
+
+	/**
+	 * Describes every archetype created so far, including empty ones, ordered by signature
+	 */
+	getArchetypes(): ArchetypeInfo[] {
+		const keys: string[] = [];
+		for (const [key] of this.archetypes) {
+			keys.push(key);
+		}
+		keys.sort((a, b) => a < b);
+
+		return keys.map((key) => {
+			const archetype = this.archetypes.get(key)!;
+			return {
+				components: archetype.signature
+					.filter((componentId) => !this.tagIds.has(componentId))
+					.map((componentId) => this.componentIdToClass.get(componentId)!),
+				tags: archetype.signature
+					.filter((componentId) => this.tagIds.has(componentId))
+					.map((componentId) => this.componentIdToClass.get(componentId)!),
+				entityCount: archetype.entities.size(),
+			};
+		});
+	}
+
 	/**
 	 * Fast component existence check
 	 */
@@ -246,47 +863,238 @@ export class ComponentManager {
 		if (!archetype) return false;
 
 		const componentId = this.getComponentId(componentClass);
-		return archetype.componentArrays.has(componentId);
+		return archetype.signatureSet.has(componentId);
 	}
 
 	/**
-	 * Optimized component removal
+	 * Optimized component removal, also used for tags
 	 */
 	removeComponent<T extends Component>(entity: Entity, componentClass: ComponentClass<T>): boolean {
-		const currentArchetype = this.entityToArchetype.get(entity);
-		if (!currentArchetype) return false;
+		this.startBatch();
+		try {
+			const currentArchetype = this.entityToArchetype.get(entity);
+			if (!currentArchetype) return false;
+
+			const componentId = this.getComponentId(componentClass);
+			if (!currentArchetype.signatureSet.has(componentId)) return false;
+			this.assertUnlocked();
+
+			if (currentArchetype.signature.size() === 1) {
+				this.removeAllComponents(entity);
+			} else {
+				const component = currentArchetype.componentArrays.get(componentId)?.[this.entityToIndex.get(entity)!];
+				if (component !== undefined) {
+					this.notifyComponent(this.removedListeners, componentId, entity, component);
+				}
 
-		const componentId = this.getComponentId(componentClass);
-		if (!currentArchetype.componentArrays.has(componentId)) return false;
+				this.recordRemoved(entity, componentId);
+				const newArchetype = this.getArchetypeWithout(currentArchetype, componentId);
+				this.moveEntity(entity, currentArchetype, newArchetype);
+				this.notifyObservers(entity, currentArchetype, newArchetype, "onExit");
+				this.notifyObservers(entity, currentArchetype, newArchetype, "onEnter");
 
-		const newSignature = currentArchetype.signature.filter((id) => id !== componentId);
+				if (component !== undefined) {
+					this.releaseComponent(componentId, component);
+				}
+			}
 
-		if (newSignature.size() === 0) {
-			this.removeAllComponents(entity);
-		} else {
-			const newArchetype = this.getOrCreateArchetype(newSignature);
-			this.moveEntity(entity, currentArchetype, newArchetype);
+			return true;
+		} finally {
+			this.endBatch();
 		}
-
-		this.scheduleQueryCacheInvalidation();
-		return true;
 	}
 
 	/**
 	 * Optimized bulk component removal
+	 * @param releaseComponents Return pooled components to their pools; otherwise the pools just stop tracking them
 	 */
-	removeAllComponents(entity: Entity): void {
-		const archetype = this.entityToArchetype.get(entity);
-		if (!archetype) return;
+	removeAllComponents(entity: Entity, releaseComponents = true): void {
+		this.startBatch();
+		try {
+			const archetype = this.entityToArchetype.get(entity);
+			if (!archetype) return;
+			this.assertUnlocked();
 
-		const entityIndex = this.entityToIndex.get(entity);
-		if (entityIndex === undefined) return;
+			const entityIndex = this.entityToIndex.get(entity);
+			if (entityIndex === undefined) return;
+
+			for (const [componentId, componentArray] of archetype.componentArrays) {
+				this.notifyComponent(this.removedListeners, componentId, entity, componentArray[entityIndex]);
+			}
+
+			for (const componentId of archetype.signature) {
+				this.recordRemoved(entity, componentId);
+			}
+			this.notifyObservers(entity, archetype, undefined, "onExit");
+
+			for (const [componentId, componentArray] of archetype.componentArrays) {
+				this.releaseComponent(componentId, componentArray[entityIndex], releaseComponents);
+			}
+
+			this.swapRemoveFromArchetype(entity, archetype, entityIndex);
+
+			this.entityToArchetype.delete(entity);
+			this.entityToIndex.delete(entity);
+		} finally {
+			this.endBatch();
+		}
+	}
+
+	/**
+	 * Removes all components from many entities at once
+	 * Each affected archetype is compacted in a single pass rather than swap-removing entity by entity,
+	 * except for short lists, where shifting every later row would cost more than it saves
+	 * @param releaseComponents Return pooled components to their pools; otherwise the pools just stop tracking them
+	 */
+	removeEntities(entities: Entity[], releaseComponents = true): void {
+		this.startBatch();
+		try {
+			if (entities.size() < COMPACTION_THRESHOLD) {
+				for (const entity of entities) {
+					this.removeAllComponents(entity, releaseComponents);
+				}
+				return;
+			}
+
+			const doomedByArchetype = new Map<Archetype, Set<number>>();
+
+			for (const entity of entities) {
+				const archetype = this.entityToArchetype.get(entity);
+				if (!archetype) continue;
+				this.assertUnlocked();
+
+				const entityIndex = this.entityToIndex.get(entity)!;
+				for (const [componentId, componentArray] of archetype.componentArrays) {
+					this.notifyComponent(this.removedListeners, componentId, entity, componentArray[entityIndex]);
+				}
+				for (const componentId of archetype.signature) {
+					this.recordRemoved(entity, componentId);
+				}
+				this.notifyObservers(entity, archetype, undefined, "onExit");
+				for (const [componentId, componentArray] of archetype.componentArrays) {
+					this.releaseComponent(componentId, componentArray[entityIndex], releaseComponents);
+				}
+
+				let doomed = doomedByArchetype.get(archetype);
+				if (!doomed) {
+					doomed = new Set();
+					doomedByArchetype.set(archetype, doomed);
+				}
+				doomed.add(entityIndex);
+
+				this.entityToArchetype.delete(entity);
+				this.entityToIndex.delete(entity);
+			}
+
+			for (const [archetype, doomed] of doomedByArchetype) {
+				this.compactArchetype(archetype, doomed);
+			}
+		} finally {
+			this.endBatch();
+		}
+	}
+
+	/**
+	 * Drops rows from an archetype, shifting the remaining rows down in order
+	 */
+	private compactArchetype(archetype: Archetype, doomed: Set<number>): void {
+		const count = archetype.entities.size();
+		let write = 0;
+
+		for (let read = 0; read < count; read++) {
+			if (doomed.has(read)) continue;
+
+			if (write !== read) {
+				const entity = archetype.entities[read];
+				archetype.entities[write] = entity;
+				this.entityToIndex.set(entity, write);
+
+				for (const [, componentArray] of archetype.componentArrays) {
+					componentArray[write] = componentArray[read];
+				}
+				for (const [, ticks] of archetype.addedTicks) {
+					ticks[write] = ticks[read];
+				}
+				for (const [, ticks] of archetype.changedTicks) {
+					ticks[write] = ticks[read];
+				}
+			}
+			write++;
+		}
+
+		for (let i = count; i > write; i--) {
+			archetype.entities.pop();
+			for (const [, componentArray] of archetype.componentArrays) {
+				componentArray.pop();
+			}
+			for (const [, ticks] of archetype.addedTicks) {
+				ticks.pop();
+			}
+			for (const [, ticks] of archetype.changedTicks) {
+				ticks.pop();
+			}
+		}
+	}
+
+	/**
+	 * Logs a component removal for change detection
+	 */
+	private recordRemoved(entity: Entity, componentId: ComponentId): void {
+		this.removedComponents.get(componentId)!.push({ entity, tick: this.changeTick });
+	}
+
+	/**
+	 * Gets entities that lost a component since the current system last ran
+	 */
+	getRemoved<T extends Component>(componentClass: ComponentClass<T>): Entity[] {
+		const result: Entity[] = [];
+		for (const record of this.removedComponents.get(this.getComponentId(componentClass))!) {
+			if (record.tick > this.lastRunTick) {
+				result.push(record.entity);
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Drops removal records that every reader has already seen
+	 */
+	pruneRemoved(seenTick: number): void {
+		for (const [componentId, records] of this.removedComponents) {
+			if (records.size() === 0 || records[0].tick > seenTick) continue;
 
-		this.swapRemoveFromArchetype(entity, archetype, entityIndex);
+			const unseen = records.filter((record) => record.tick > seenTick);
+			this.removedComponents.set(componentId, unseen);
+		}
+	}
 
-		this.entityToArchetype.delete(entity);
-		this.entityToIndex.delete(entity);
-		this.scheduleQueryCacheInvalidation();
+	/**
+	 * Gets the tick that component changes are currently stamped with
+	 */
+	getChangeTick(): number {
+		return this.changeTick;
+	}
+
+	/**
+	 * Ends the current tick and starts a new one
+	 * @returns The tick that just ended
+	 */
+	advanceChangeTick(): number {
+		return this.changeTick++;
+	}
+
+	/**
+	 * Gets the tick change queries compare against
+	 */
+	getLastRunTick(): number {
+		return this.lastRunTick;
+	}
+
+	/**
+	 * Sets the tick change queries compare against, usually when the running system last ran
+	 */
+	setLastRunTick(tick: number): void {
+		this.lastRunTick = tick;
 	}
 
 	/**
@@ -322,56 +1130,217 @@ export class ComponentManager {
 	 * Optimized multi-component query with better caching
 	 */
 	getEntitiesWithComponents(componentClasses: ComponentClass[]): Entity[] {
-		if (componentClasses.size() === 0) return [];
+		return this.getEntitiesMatching({ all: componentClasses });
+	}
+
+	/**
+	 * Filtered query resolved against archetype signatures
+	 * Queries with neither required nor any-of components match nothing
+	 */
+	getEntitiesMatching(filter: QueryFilter): Entity[] {
+		if (filter.all.size() === 0 && (filter.any === undefined || filter.any.size() === 0)) return [];
+
+		const added = this.toSortedIds(filter.added).filter((componentId) => !this.tagIds.has(componentId));
+		const changed = this.toSortedIds(filter.changed).filter((componentId) => !this.tagIds.has(componentId));
+		const cache = this.resolveQuery(filter);
+
+		if (added.size() === 0 && changed.size() === 0) {
+			const entities: Entity[] = [];
+			for (const archetype of cache.archetypes) {
+				for (const entity of archetype.entities) {
+					entities.push(entity);
+				}
+			}
+			return entities;
+		}
+
+		return this.filterByTicks(cache, added, changed);
+	}
 
-		const componentIds = componentClasses.map((cls) => this.getComponentId(cls)).sort((a, b) => a < b);
-		const cacheKey = this.createSignature(componentIds);
+	/**
+	 * Walks the archetypes matching a filter, handing the callback each archetype's live entity array
+	 * and the requested component columns, so hot loops can read by index
+	 * Columns a matching archetype lacks (optional components, tags) are passed as empty arrays.
+	 * Rules while iterating: component values may be read, mutated or replaced in place, but structural
+	 * changes (adding or removing components or tags, destroying entities) raise an error, because they
+	 * would reorder the arrays being walked. Record them in a command buffer and play it back afterwards.
+	 * Added/changed filters are not applied; check ticks with a separate query instead.
+	 */
+	forEachChunk(
+		filter: QueryFilter,
+		columnClasses: ComponentClass[],
+		callback: (entities: readonly Entity[], columns: ReadonlyArray<readonly Component[]>, count: number) => void,
+	): void {
+		if (filter.all.size() === 0 && (filter.any === undefined || filter.any.size() === 0)) return;
+
+		const cache = this.resolveQuery(filter);
+		const columnIds = columnClasses.map((componentClass) => this.getComponentId(componentClass));
+		const columns: Component[][] = [];
+
+		this.iterationDepth++;
+		try {
+			for (const archetype of cache.archetypes) {
+				const count = archetype.entities.size();
+				if (count === 0) continue;
+
+				for (let i = 0; i < columnIds.size(); i++) {
+					columns[i] = archetype.componentArrays.get(columnIds[i]) ?? EMPTY_COLUMN;
+				}
+				callback(archetype.entities, columns, count);
+			}
+		} finally {
+			this.iterationDepth--;
+		}
+	}
+
+	/**
+	 * Gets the cache for a filter's shape; added and changed components count as required
+	 */
+	private resolveQuery(filter: QueryFilter): QueryCache {
+		const componentIds = this.toSortedIds([...filter.all, ...(filter.added ?? []), ...(filter.changed ?? [])]);
+		const without = this.toSortedIds(filter.none);
+		const anyOf = this.toSortedIds(filter.any);
+		return this.getQueryCache(componentIds, without, anyOf);
+	}
+
+	/**
+	 * Gets or creates the cache for a filter shape
+	 * New caches collect their matching archetypes once; afterwards archetypes register themselves on creation
+	 */
+	private getQueryCache(componentIds: ComponentId[], without: ComponentId[], anyOf: ComponentId[]): QueryCache {
+		const cacheKey = `${this.createSignature(componentIds)}|${this.createSignature(without)}|${this.createSignature(anyOf)}`;
 
 		let cache = this.queryCache.get(cacheKey);
-		if (!cache) {
+		if (cache) {
+			this.profiler?.recordQueryHit(cacheKey, () => this.describeQuery(componentIds, without, anyOf));
+		} else {
+			const start = this.profiler?.clock();
 			cache = {
 				signature: componentIds,
-				entities: [],
-				archetypes: new Set(),
-				needsUpdate: true,
+				without,
+				anyOf,
+				archetypes: [],
 			};
+
+			for (const archetype of this.getCandidateArchetypes(cache)) {
+				if (this.archetypeMatches(archetype, cache)) {
+					cache.archetypes.push(archetype);
+				}
+			}
+
 			this.queryCache.set(cacheKey, cache);
+
+			if (this.profiler && start !== undefined) {
+				const seconds = this.profiler.clock() - start;
+				this.profiler.recordQueryMiss(
+					cacheKey,
+					() => this.describeQuery(componentIds, without, anyOf),
+					seconds,
+				);
+			}
+		}
+
+		return cache;
+	}
+
+	/**
+	 * Names a query's components for profiler reports, e.g. "Position, Velocity without Dead"
+	 */
+	private describeQuery(componentIds: ComponentId[], without: ComponentId[], anyOf: ComponentId[]): string {
+		const names = (ids: ComponentId[]) => ids.map((id) => tostring(this.componentIdToClass.get(id))).join(", ");
+
+		let description = names(componentIds);
+		if (anyOf.size() > 0) {
+			description += ` any of ${names(anyOf)}`;
+		}
+		if (without.size() > 0) {
+			description += ` without ${names(without)}`;
+		}
+		return description;
+	}
+
+	/**
+	 * Narrows a cached query to entities whose components were added or changed since the last run tick
+	 */
+	private filterByTicks(cache: QueryCache, added: ComponentId[], changed: ComponentId[]): Entity[] {
+		const result: Entity[] = [];
+
+		for (const archetype of cache.archetypes) {
+			const addedColumns = added.map((componentId) => archetype.addedTicks.get(componentId)!);
+			const changedColumns = changed.map((componentId) => archetype.changedTicks.get(componentId)!);
+
+			for (let i = 0; i < archetype.entities.size(); i++) {
+				const matches =
+					addedColumns.every((ticks) => ticks[i] > this.lastRunTick) &&
+					changedColumns.every((ticks) => ticks[i] > this.lastRunTick);
+
+				if (matches) {
+					result.push(archetype.entities[i]);
+				}
+			}
 		}
 
-		if (cache.needsUpdate) {
-			this.updateQueryCacheOptimized(cache);
+		return result;
+	}
+
+	/**
+	 * Converts component classes to a sorted, de-duplicated list of component IDs
+	 */
+	private toSortedIds(componentClasses: ComponentClass[] | undefined): ComponentId[] {
+		const componentIds: ComponentId[] = [];
+		if (componentClasses === undefined) return componentIds;
+
+		for (const componentClass of componentClasses) {
+			const componentId = this.getComponentId(componentClass);
+			if (!componentIds.includes(componentId)) {
+				componentIds.push(componentId);
+			}
 		}
 
-		return [...cache.entities];
+		return componentIds.sort((a, b) => a < b);
 	}
 
 	/**
-	 * Optimized query cache update using archetype indexing
+	 * Checks an archetype signature against a cached query's filter shape
 	 */
-	private updateQueryCacheOptimized(cache: QueryCache): void {
-		cache.entities.clear();
-		cache.archetypes.clear();
+	private archetypeMatches(archetype: Archetype, cache: QueryCache): boolean {
+		for (const componentId of cache.signature) {
+			if (!archetype.signatureSet.has(componentId)) return false;
+		}
 
-		const firstComponentId = cache.signature[0];
-		const candidateArchetypes = this.archetypesByComponentId.get(firstComponentId);
+		for (const componentId of cache.without) {
+			if (archetype.signatureSet.has(componentId)) return false;
+		}
 
-		if (!candidateArchetypes) {
-			cache.needsUpdate = false;
-			return;
+		if (cache.anyOf.size() === 0) return true;
+
+		for (const componentId of cache.anyOf) {
+			if (archetype.signatureSet.has(componentId)) return true;
 		}
 
-		for (const archetype of candidateArchetypes) {
-			const hasAllComponents = cache.signature.every((componentId) => archetype.componentArrays.has(componentId));
+		return false;
+	}
+
+	/**
+	 * Collects the archetypes that could match a query, narrowed by its first required component
+	 * or, failing that, by the union of its any-of components
+	 */
+	private getCandidateArchetypes(cache: QueryCache): Set<Archetype> {
+		if (cache.signature.size() > 0) {
+			return this.archetypesByComponentId.get(cache.signature[0]) ?? new Set();
+		}
 
-			if (hasAllComponents) {
-				cache.archetypes.add(archetype);
-				for (let i = 0; i < archetype.entities.size(); i++) {
-					cache.entities.push(archetype.entities[i]);
+		const candidates = new Set<Archetype>();
+		for (const componentId of cache.anyOf) {
+			const archetypes = this.archetypesByComponentId.get(componentId);
+			if (archetypes) {
+				for (const archetype of archetypes) {
+					candidates.add(archetype);
 				}
 			}
 		}
 
-		cache.needsUpdate = false;
+		return candidates;
 	}
 
 	/**
@@ -412,15 +1381,6 @@ export class ComponentManager {
 		return result;
 	}
 
-	/**
-	 * Optimized cache invalidation
-	 */
-	private invalidateQueryCaches(): void {
-		for (const [, cache] of this.queryCache) {
-			cache.needsUpdate = true;
-		}
-	}
-
 	/**
 	 * Clear query cache (for memory management)
 	 */
@@ -436,6 +1396,7 @@ export class ComponentManager {
 		entities: number;
 		cachedQueries: number;
 		componentTypes: number;
+		pools: ComponentPoolStats[];
 	} {
 		let totalEntities = 0;
 		for (const [, archetype] of this.archetypes) {
@@ -447,6 +1408,7 @@ export class ComponentManager {
 			entities: totalEntities,
 			cachedQueries: this.queryCache.size(),
 			componentTypes: this.componentIdCounter,
+			pools: this.getPoolStats(),
 		};
 	}
 }
@@ -1,41 +1,133 @@
 import { Entity } from "./types";
+import { Profiler } from "./profiler";
+
+/**
+ * Number of low bits of an entity handle that hold its index
+ */
+const INDEX_BITS = 24;
+const INDEX_RANGE = 2 ** INDEX_BITS;
+
+/**
+ * Packs an entity index and generation into a single entity handle
+ * @param index The entity index (slot)
+ * @param generation How many times the index has been recycled
+ * @returns The packed entity handle
+ */
+export function packEntity(index: number, generation: number): Entity {
+	return generation * INDEX_RANGE + index;
+}
+
+/**
+ * Splits an entity handle into its index and generation
+ * @param entity The entity handle to split
+ * @returns The entity index and generation
+ */
+export function unpackEntity(entity: Entity): [index: number, generation: number] {
+	return [entity % INDEX_RANGE, math.floor(entity / INDEX_RANGE)];
+}
 
 export class EntityManager {
 	private entities = new Set<Entity>();
-	private nextId: Entity = 1;
-	private recycledIds: Entity[] = [];
+	private nextIndex = 1;
+	private recycledIndices: number[] = [];
+	private generations = new Map<number, number>();
+	private reserved = new Set<Entity>();
+	private profiler?: Profiler;
 
 	/**
-	 * Creates a new entity with a unique ID
-	 * @returns A new entity ID
+	 * Attaches or detaches a profiler that counts created and destroyed entities
+	 */
+	setProfiler(profiler: Profiler | undefined): void {
+		this.profiler = profiler;
+	}
+
+	/**
+	 * Creates a new entity with a unique handle
+	 * Recycled indices get a bumped generation, so handles to destroyed entities stay invalid
+	 * @returns A new entity handle
 	 */
 	createEntity(): Entity {
-		let id: Entity;
+		const id = this.allocate();
+		this.entities.add(id);
+		this.profiler?.recordEntityCreated();
+		return id;
+	}
 
-		if (this.recycledIds.size() > 0) {
-			id = this.recycledIds.pop()!;
-		} else {
-			id = this.nextId++;
-		}
+	/**
+	 * Reserves an entity handle without making it live
+	 * @returns The reserved entity handle
+	 */
+	reserveEntity(): Entity {
+		const id = this.allocate();
+		this.reserved.add(id);
+		return id;
+	}
+
+	/**
+	 * Makes a reserved entity handle live
+	 * @param id The reserved entity handle
+	 * @returns True if the handle was reserved, false otherwise
+	 */
+	commitReserved(id: Entity): boolean {
+		if (!this.reserved.has(id)) return false;
 
+		this.reserved.delete(id);
 		this.entities.add(id);
-		return id;
+		this.profiler?.recordEntityCreated();
+		return true;
+	}
+
+	/**
+	 * Gives back a reserved entity handle that was never made live
+	 * @param id The reserved entity handle
+	 */
+	releaseReserved(id: Entity): void {
+		if (this.reserved.has(id)) {
+			this.reserved.delete(id);
+			this.recycle(id);
+		}
 	}
 
 	/**
-	 * Destroys an entity and marks its ID for recycling
-	 * @param id The entity ID to destroy
+	 * Destroys an entity and marks its index for recycling
+	 * @param id The entity handle to destroy
 	 */
 	destroyEntity(id: Entity): void {
 		if (this.entities.has(id)) {
 			this.entities.delete(id);
-			this.recycledIds.push(id);
+			this.recycle(id);
+			this.profiler?.recordEntityDestroyed();
 		}
 	}
 
+	/**
+	 * Takes a recycled index or a fresh one and packs it with its current generation
+	 */
+	private allocate(): Entity {
+		let index: number;
+
+		if (this.recycledIndices.size() > 0) {
+			index = this.recycledIndices.pop()!;
+		} else {
+			index = this.nextIndex++;
+		}
+
+		return packEntity(index, this.generations.get(index) ?? 0);
+	}
+
+	/**
+	 * Bumps an index's generation and queues it for reuse
+	 */
+	private recycle(id: Entity): void {
+		const [index, generation] = unpackEntity(id);
+		this.generations.set(index, generation + 1);
+		this.recycledIndices.push(index);
+	}
+
 	/**
 	 * Checks if an entity exists.
-	 * @param id The entity ID to check
+	 * Stale handles whose index has since been recycled are reported as not existing.
+	 * @param id The entity handle to check
 	 * @returns True if the entity exists, false otherwise
 	 */
 	entityExist(id: Entity): boolean {
@@ -44,7 +136,7 @@ export class EntityManager {
 
 	/**
 	 * Gets all active entities.
-	 * @returns A readonly set of all active entity IDs
+	 * @returns A readonly set of all active entity handles
 	 */
 	getAllEntities(): ReadonlySet<Entity> {
 		return this.entities;
@@ -60,10 +152,21 @@ export class EntityManager {
 
 	/**
 	 * Clears all entities and resets the manager
+	 * Generations are kept so handles from before the clear stay invalid
 	 */
 	clear(): void {
+		for (const id of this.entities) {
+			const [index, generation] = unpackEntity(id);
+			this.generations.set(index, generation + 1);
+		}
+		for (const id of this.reserved) {
+			const [index, generation] = unpackEntity(id);
+			this.generations.set(index, generation + 1);
+		}
+
 		this.entities.clear();
-		this.recycledIds.clear();
-		this.nextId = 1;
+		this.reserved.clear();
+		this.recycledIndices.clear();
+		this.nextIndex = 1;
 	}
 }
@@ -0,0 +1,134 @@
+export type EventClass<T extends object = object> = new (...args: never[]) => T;
+
+/**
+ * A typed queue of events, double-buffered so each event stays readable for two frames
+ * Events sent during a frame can be read during that frame and the next, so a reader that runs
+ * before the sender within a frame still sees them
+ */
+export class EventChannel<T extends object> {
+	private previous: T[] = [];
+	private current: T[] = [];
+	/** Sequence number of the first event in previous; events are numbered in the order they were sent */
+	private previousStart = 0;
+	/** Sequence number of the first event in current */
+	private currentStart = 0;
+
+	/**
+	 * Queues an event for readers
+	 */
+	send(event: T): void {
+		this.current.push(event);
+	}
+
+	/**
+	 * Creates a reader that sees each event once, starting with the events still buffered
+	 * Give every system that consumes the channel its own reader
+	 */
+	reader(): EventReader<T> {
+		return new EventReader(this, this.previousStart);
+	}
+
+	/**
+	 * Gets the events sent since a sequence number that are still buffered
+	 * @returns The events, and the sequence number to read from next time
+	 */
+	readFrom(cursor: number): [events: T[], cursor: number] {
+		const events: T[] = [];
+
+		for (let i = math.max(cursor - this.previousStart, 0); i < this.previous.size(); i++) {
+			events.push(this.previous[i]);
+		}
+		for (let i = math.max(cursor - this.currentStart, 0); i < this.current.size(); i++) {
+			events.push(this.current[i]);
+		}
+
+		return [events, this.currentStart + this.current.size()];
+	}
+
+	/**
+	 * Gets how many events are buffered
+	 */
+	size(): number {
+		return this.previous.size() + this.current.size();
+	}
+
+	/**
+	 * Ends a frame, dropping the events sent two frames ago
+	 */
+	update(): void {
+		this.previous = this.current;
+		this.previousStart = this.currentStart;
+		this.currentStart += this.current.size();
+		this.current = [];
+	}
+
+	/**
+	 * Drops all buffered events; existing readers skip ahead to new ones
+	 */
+	clear(): void {
+		this.currentStart += this.current.size();
+		this.previousStart = this.currentStart;
+		this.previous = [];
+		this.current = [];
+	}
+}
+
+/**
+ * Tracks which events of a channel one consumer has already read
+ */
+export class EventReader<T extends object> {
+	constructor(
+		private channel: EventChannel<T>,
+		private cursor: number,
+	) {}
+
+	/**
+	 * Gets the events sent since this reader last read, oldest first
+	 */
+	read(): T[] {
+		const [events, cursor] = this.channel.readFrom(this.cursor);
+		this.cursor = cursor;
+		return events;
+	}
+
+	/**
+	 * Skips all unread events
+	 */
+	clear(): void {
+		this.read();
+	}
+}
+
+export class EventManager {
+	private channels = new Map<EventClass, EventChannel<object>>();
+
+	/**
+	 * Gets the channel for an event class, creating it on first use
+	 */
+	getChannel<T extends object>(eventClass: EventClass<T>): EventChannel<T> {
+		let channel = this.channels.get(eventClass);
+		if (!channel) {
+			channel = new EventChannel();
+			this.channels.set(eventClass, channel);
+		}
+		return channel as EventChannel<T>;
+	}
+
+	/**
+	 * Ends a frame on every channel
+	 */
+	update(): void {
+		for (const [, channel] of this.channels) {
+			channel.update();
+		}
+	}
+
+	/**
+	 * Drops the events buffered in every channel
+	 */
+	clear(): void {
+		for (const [, channel] of this.channels) {
+			channel.clear();
+		}
+	}
+}
@@ -0,0 +1,119 @@
+import { Entity } from "./types";
+
+export class HierarchyManager {
+	private parents = new Map<Entity, Entity>();
+	private children = new Map<Entity, Entity[]>();
+
+	/**
+	 * Sets or clears an entity's parent
+	 * @param child The entity to reparent
+	 * @param parent The new parent, or undefined to detach
+	 * @returns False if the parent is the child itself or one of its descendants, true otherwise
+	 */
+	setParent(child: Entity, parent: Entity | undefined): boolean {
+		if (parent !== undefined && (parent === child || this.isAncestor(child, parent))) {
+			return false;
+		}
+
+		this.detach(child);
+
+		if (parent !== undefined) {
+			this.parents.set(child, parent);
+
+			let siblings = this.children.get(parent);
+			if (!siblings) {
+				siblings = [];
+				this.children.set(parent, siblings);
+			}
+			siblings.push(child);
+		}
+
+		return true;
+	}
+
+	/**
+	 * Gets an entity's parent
+	 */
+	getParent(child: Entity): Entity | undefined {
+		return this.parents.get(child);
+	}
+
+	/**
+	 * Gets an entity's direct children
+	 * @returns A copy of the children array, in the order they were parented
+	 */
+	getChildren(parent: Entity): Entity[] {
+		const siblings = this.children.get(parent);
+		return siblings ? [...siblings] : [];
+	}
+
+	/**
+	 * Gets all descendants of an entity, depth-first with parents before their children
+	 */
+	getDescendants(entity: Entity): Entity[] {
+		const result: Entity[] = [];
+		this.collectDescendants(entity, result);
+		return result;
+	}
+
+	/**
+	 * Checks if an entity is an ancestor of another
+	 */
+	isAncestor(ancestor: Entity, entity: Entity): boolean {
+		let current = this.parents.get(entity);
+		while (current !== undefined) {
+			if (current === ancestor) return true;
+			current = this.parents.get(current);
+		}
+		return false;
+	}
+
+	/**
+	 * Removes an entity from the hierarchy, detaching it from its parent and orphaning its children
+	 */
+	remove(entity: Entity): void {
+		this.detach(entity);
+
+		const orphans = this.children.get(entity);
+		if (orphans) {
+			for (const orphan of orphans) {
+				this.parents.delete(orphan);
+			}
+			this.children.delete(entity);
+		}
+	}
+
+	/**
+	 * Clears all relationships
+	 */
+	clear(): void {
+		this.parents.clear();
+		this.children.clear();
+	}
+
+	private collectDescendants(entity: Entity, result: Entity[]): void {
+		const siblings = this.children.get(entity);
+		if (!siblings) return;
+
+		for (const child of siblings) {
+			result.push(child);
+			this.collectDescendants(child, result);
+		}
+	}
+
+	/**
+	 * Unlinks an entity from its current parent
+	 */
+	private detach(child: Entity): void {
+		const parent = this.parents.get(child);
+		if (parent === undefined) return;
+
+		this.parents.delete(child);
+
+		const siblings = this.children.get(parent)!;
+		siblings.remove(siblings.indexOf(child));
+		if (siblings.size() === 0) {
+			this.children.delete(parent);
+		}
+	}
+}
@@ -1,7 +1,56 @@
-export { Entity, Component, ComponentClass, ComponentQuery } from "./types";
-export { EntityManager } from "./entity";
+export {
+	Entity,
+	Component,
+	ComponentClass,
+	ComponentEntry,
+	ComponentFactory,
+	ComponentQuery,
+	ComponentInstances,
+	OptionalComponentInstances,
+	ComponentListener,
+	EntityListener,
+	EntityDestroyedListener,
+	QueryFilter,
+	QueryObserver,
+	PooledComponent,
+	PooledComponentClass,
+	ComponentPoolStats,
+} from "./types";
+export { EntityManager, packEntity, unpackEntity } from "./entity";
 export { ComponentManager } from "./component";
-export { System, SystemManager } from "./system";
+export { System, SystemRate, SystemManager, DEFAULT_PHASES, DEFAULT_PHASE } from "./system";
+export { HierarchyManager } from "./hierarchy";
+export { Prefab } from "./prefab";
+export { ResourceManager } from "./resource";
+export { EventChannel, EventClass, EventReader, EventManager } from "./events";
+export { FixedTimestep, TimestepOptions } from "./timestep";
+export { EntityInspection, ArchetypeInfo, DumpedEntity, DumpedArchetype, WorldDump } from "./inspect";
+export {
+	Profiler,
+	ProfilerOptions,
+	ProfilerStat,
+	ProfilerReport,
+	ProfiledCallback,
+	SystemProfile,
+	QueryProfile,
+} from "./profiler";
+export { CommandBuffer, CommandSyncPoint } from "./commands";
+export {
+	ComponentRegistry,
+	ComponentRegistrationOptions,
+	SerializedComponent,
+	SerializedEntity,
+	WorldSnapshot,
+} from "./serialization";
+export {
+	ReplicationPacket,
+	ReplicatedComponent,
+	ReplicatedRemoval,
+	ReplicationTransport,
+	LoopbackTransport,
+	ReplicationSender,
+	ReplicationReceiver,
+} from "./replication";
 export { World } from "./world";
 
 import { World } from "./world";
@@ -0,0 +1,127 @@
+import { Entity, Component, ComponentClass, ComponentEntry } from "./types";
+
+/**
+ * Everything attached to a live entity
+ */
+export interface EntityInspection {
+	readonly entity: Entity;
+	/** Components in component ID order */
+	readonly components: ComponentEntry[];
+	readonly tags: ComponentClass[];
+	readonly parent?: Entity;
+	readonly children: Entity[];
+}
+
+export interface ArchetypeInfo {
+	readonly components: ComponentClass[];
+	readonly tags: ComponentClass[];
+	readonly entityCount: number;
+}
+
+/**
+ * A plain data view of an entity and its descendants, with classes replaced by their names
+ */
+export interface DumpedEntity {
+	readonly id: Entity;
+	readonly components: Record<string, Record<string, unknown>>;
+	readonly tags: string[];
+	readonly children: DumpedEntity[];
+}
+
+export interface DumpedArchetype {
+	readonly components: string[];
+	readonly tags: string[];
+	readonly entityCount: number;
+}
+
+/**
+ * A plain data view of a world, e.g. for HttpService:JSONEncode
+ */
+export interface WorldDump {
+	readonly entityCount: number;
+	readonly archetypes: DumpedArchetype[];
+	/** Entities without a parent, each with its descendants nested */
+	readonly entities: DumpedEntity[];
+}
+
+/**
+ * Copies a component's fields as plain data, turning values that aren't plain tables or primitives into strings
+ */
+export function dumpComponent(component: Component): Record<string, unknown> {
+	return dumpFields(component);
+}
+
+function dumpFields(source: object): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	for (const [key, value] of pairs(source)) {
+		result[tostring(key)] = dumpValue(value);
+	}
+	return result;
+}
+
+function dumpValue(value: unknown): unknown {
+	if (typeIs(value, "number") || typeIs(value, "string") || typeIs(value, "boolean")) {
+		return value;
+	}
+	if (typeIs(value, "table") && getmetatable(value) === undefined) {
+		return dumpFields(value);
+	}
+	return tostring(value);
+}
+
+/**
+ * Formats a world dump as an indented text tree
+ */
+export function formatWorldDump(dump: WorldDump): string {
+	const lines: string[] = [`World: ${dump.entityCount} entities, ${dump.archetypes.size()} archetypes`];
+
+	lines.push("Archetypes:");
+	for (const archetype of dump.archetypes) {
+		const names = [...archetype.components, ...archetype.tags.map((tag) => `#${tag}`)];
+		lines.push(`  [${names.join(", ")}] ${archetype.entityCount} entities`);
+	}
+
+	lines.push("Entities:");
+	for (const entity of dump.entities) {
+		formatEntity(entity, "  ", lines);
+	}
+
+	return lines.join("\n");
+}
+
+function formatEntity(entity: DumpedEntity, indent: string, lines: string[]): void {
+	const tags = entity.tags.map((tag) => ` #${tag}`).join("");
+	lines.push(`${indent}Entity ${entity.id}${tags}`);
+
+	const names: string[] = [];
+	for (const [name] of pairs(entity.components)) {
+		names.push(name as string);
+	}
+	names.sort((a, b) => a < b);
+
+	for (const name of names) {
+		lines.push(`${indent}  ${name} ${formatValue(entity.components[name])}`);
+	}
+
+	for (const child of entity.children) {
+		formatEntity(child, `${indent}  `, lines);
+	}
+}
+
+function formatValue(value: unknown): string {
+	if (typeIs(value, "string")) {
+		return `"${value}"`;
+	}
+	if (!typeIs(value, "table")) {
+		return tostring(value);
+	}
+
+	const keys: string[] = [];
+	for (const [key] of pairs(value)) {
+		keys.push(key as string);
+	}
+	keys.sort((a, b) => a < b);
+
+	const fields = keys.map((key) => `${key} = ${formatValue((value as Record<string, unknown>)[key])}`);
+	return fields.size() > 0 ? `{ ${fields.join(", ")} }` : "{}";
+}
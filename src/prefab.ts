@@ -0,0 +1,75 @@
+import { Component, ComponentClass, ComponentEntry } from "./types";
+
+/**
+ * A named template of components with default values, optionally extending another prefab
+ */
+export class Prefab {
+	private factories = new Map<ComponentClass, () => Component>();
+	private order: ComponentClass[] = [];
+
+	/**
+	 * @param name The prefab's name, e.g. "Goblin"
+	 * @param base A prefab whose components this one inherits and may override
+	 */
+	constructor(
+		readonly name: string,
+		readonly base?: Prefab,
+	) {}
+
+	/**
+	 * Adds a component, or overrides an inherited one
+	 * @param componentClass The component class
+	 * @param create Creates a fresh default value for each spawned entity
+	 */
+	with<T extends Component>(componentClass: ComponentClass<T>, create: () => T): this {
+		if (!this.factories.has(componentClass)) {
+			this.order.push(componentClass);
+		}
+		this.factories.set(componentClass, create);
+		return this;
+	}
+
+	/**
+	 * Gets every component class in the prefab, including inherited ones
+	 */
+	getComponentClasses(): ComponentClass[] {
+		const result = this.base ? this.base.getComponentClasses() : [];
+		for (const componentClass of this.order) {
+			if (!result.includes(componentClass)) {
+				result.push(componentClass);
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Creates default component values, with overrides replacing defaults of the same class
+	 * Overrides for classes outside the prefab are added as extra components
+	 */
+	instantiate(overrides: ComponentEntry[] = []): ComponentEntry[] {
+		const overridden = new Set<ComponentClass>();
+		for (const entry of overrides) {
+			overridden.add(entry.class);
+		}
+
+		const entries: ComponentEntry[] = [];
+		for (const componentClass of this.getComponentClasses()) {
+			if (!overridden.has(componentClass)) {
+				entries.push({ class: componentClass, component: this.getFactory(componentClass)!() });
+			}
+		}
+
+		for (const entry of overrides) {
+			entries.push(entry);
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Finds the most derived factory for a component class
+	 */
+	private getFactory(componentClass: ComponentClass): (() => Component) | undefined {
+		return this.factories.get(componentClass) ?? this.base?.getFactory(componentClass);
+	}
+}
@@ -0,0 +1,299 @@
+import { System } from "./system";
+
+export interface ProfilerOptions {
+	/** Time source in seconds; inject a fake one for deterministic results */
+	readonly clock?: () => number;
+	/** How many recent samples rolling averages cover */
+	readonly window?: number;
+}
+
+/**
+ * Rolling statistics for one measurement; times are in seconds
+ */
+export interface ProfilerStat {
+	/** Average over the most recent samples, up to the profiler's window */
+	readonly average: number;
+	/** Largest sample since the profiler was created or reset */
+	readonly peak: number;
+	/** Most recent sample */
+	readonly last: number;
+	/** Samples recorded since the profiler was created or reset */
+	readonly samples: number;
+}
+
+export interface SystemProfile {
+	readonly name: string;
+	/** Time per update call */
+	readonly update: ProfilerStat;
+	/** Time per fixedUpdate call */
+	readonly fixedUpdate: ProfilerStat;
+}
+
+export interface QueryProfile {
+	/** The query's components, e.g. "Position, Velocity without Dead" */
+	readonly query: string;
+	readonly hits: number;
+	readonly misses: number;
+	/** Time spent building the query's cache on each miss */
+	readonly rebuildTime: ProfilerStat;
+}
+
+export interface ProfilerReport {
+	readonly frames: number;
+	readonly systems: SystemProfile[];
+	readonly queries: QueryProfile[];
+	/** Archetype moves per frame, including entities placed into their first archetype */
+	readonly archetypeMoves: ProfilerStat;
+	/** Entities created per frame */
+	readonly entitiesCreated: ProfilerStat;
+	/** Entities destroyed per frame */
+	readonly entitiesDestroyed: ProfilerStat;
+}
+
+export type ProfiledCallback = "update" | "fixedUpdate";
+
+class RollingStat {
+	private values: number[] = [];
+	private cursor = 0;
+	private total = 0;
+	private peak = 0;
+	private last = 0;
+	private samples = 0;
+
+	constructor(private window: number) {}
+
+	add(value: number): void {
+		if (this.values.size() < this.window) {
+			this.values.push(value);
+		} else {
+			this.total -= this.values[this.cursor];
+			this.values[this.cursor] = value;
+		}
+		this.cursor = (this.cursor + 1) % this.window;
+		this.total += value;
+		this.peak = this.samples === 0 ? value : math.max(this.peak, value);
+		this.last = value;
+		this.samples++;
+	}
+
+	snapshot(): ProfilerStat {
+		const size = this.values.size();
+		return {
+			average: size > 0 ? this.total / size : 0,
+			peak: this.peak,
+			last: this.last,
+			samples: this.samples,
+		};
+	}
+}
+
+interface SystemRecord {
+	name: string;
+	update: RollingStat;
+	fixedUpdate: RollingStat;
+}
+
+interface QueryRecord {
+	query: string;
+	hits: number;
+	misses: number;
+	rebuildTime: RollingStat;
+}
+
+/**
+ * Opt-in timings and counters for a world, attached with world.setProfiler
+ * System times are sampled per call; archetype moves and entity churn are summed per frame,
+ * where a frame ends after each world.update
+ */
+export class Profiler {
+	readonly clock: () => number;
+
+	private window: number;
+	private frames = 0;
+	private systems = new Map<System, SystemRecord>();
+	private systemOrder: System[] = [];
+	private queries = new Map<string, QueryRecord>();
+	private queryOrder: string[] = [];
+
+	private archetypeMoves = 0;
+	private entitiesCreated = 0;
+	private entitiesDestroyed = 0;
+	private archetypeMoveStat: RollingStat;
+	private entitiesCreatedStat: RollingStat;
+	private entitiesDestroyedStat: RollingStat;
+
+	constructor(options: ProfilerOptions = {}) {
+		this.clock = options.clock ?? os.clock;
+		this.window = math.max(options.window ?? 60, 1);
+		this.archetypeMoveStat = new RollingStat(this.window);
+		this.entitiesCreatedStat = new RollingStat(this.window);
+		this.entitiesDestroyedStat = new RollingStat(this.window);
+	}
+
+	/**
+	 * Records how long one call to a system took
+	 */
+	recordSystem(system: System, name: string, callback: ProfiledCallback, seconds: number): void {
+		let record = this.systems.get(system);
+		if (!record) {
+			record = { name, update: new RollingStat(this.window), fixedUpdate: new RollingStat(this.window) };
+			this.systems.set(system, record);
+			this.systemOrder.push(system);
+		}
+		record[callback].add(seconds);
+	}
+
+	/**
+	 * Records a query served from its cache
+	 * @param key Identifies the query's shape
+	 * @param describe Names the query's components; only called the first time the query is seen
+	 */
+	recordQueryHit(key: string, describe: () => string): void {
+		this.getQueryRecord(key, describe).hits++;
+	}
+
+	/**
+	 * Records a query whose cache had to be built
+	 */
+	recordQueryMiss(key: string, describe: () => string, seconds: number): void {
+		const record = this.getQueryRecord(key, describe);
+		record.misses++;
+		record.rebuildTime.add(seconds);
+	}
+
+	recordArchetypeMoves(count = 1): void {
+		this.archetypeMoves += count;
+	}
+
+	recordEntityCreated(): void {
+		this.entitiesCreated++;
+	}
+
+	recordEntityDestroyed(): void {
+		this.entitiesDestroyed++;
+	}
+
+	/**
+	 * Closes the current frame, folding its counters into the rolling stats
+	 */
+	endFrame(): void {
+		this.frames++;
+		this.archetypeMoveStat.add(this.archetypeMoves);
+		this.entitiesCreatedStat.add(this.entitiesCreated);
+		this.entitiesDestroyedStat.add(this.entitiesDestroyed);
+		this.archetypeMoves = 0;
+		this.entitiesCreated = 0;
+		this.entitiesDestroyed = 0;
+	}
+
+	/**
+	 * Gets everything recorded so far, with systems and queries in the order they were first seen
+	 */
+	getReport(): ProfilerReport {
+		return {
+			frames: this.frames,
+			systems: this.systemOrder.map((system) => {
+				const record = this.systems.get(system)!;
+				return {
+					name: record.name,
+					update: record.update.snapshot(),
+					fixedUpdate: record.fixedUpdate.snapshot(),
+				};
+			}),
+			queries: this.queryOrder.map((key) => {
+				const record = this.queries.get(key)!;
+				return {
+					query: record.query,
+					hits: record.hits,
+					misses: record.misses,
+					rebuildTime: record.rebuildTime.snapshot(),
+				};
+			}),
+			archetypeMoves: this.archetypeMoveStat.snapshot(),
+			entitiesCreated: this.entitiesCreatedStat.snapshot(),
+			entitiesDestroyed: this.entitiesDestroyedStat.snapshot(),
+		};
+	}
+
+	/**
+	 * Formats the report as a plain text table, with times in milliseconds
+	 */
+	formatReport(): string {
+		const report = this.getReport();
+		const lines: string[] = [];
+
+		lines.push(string.format("%-40s %10s %10s %10s %8s", "System", "Avg ms", "Peak ms", "Last ms", "Calls"));
+		for (const system of report.systems) {
+			for (const callback of ["update", "fixedUpdate"] as const) {
+				const stat = system[callback];
+				if (stat.samples === 0) continue;
+
+				lines.push(
+					string.format(
+						"%-40s %10.3f %10.3f %10.3f %8d",
+						`${system.name} (${callback})`,
+						stat.average * 1000,
+						stat.peak * 1000,
+						stat.last * 1000,
+						stat.samples,
+					),
+				);
+			}
+		}
+
+		lines.push("");
+		lines.push(string.format("%-40s %10s %10s %10s %10s", "Query", "Hits", "Misses", "Build ms", "Peak ms"));
+		for (const query of report.queries) {
+			lines.push(
+				string.format(
+					"%-40s %10d %10d %10.3f %10.3f",
+					query.query,
+					query.hits,
+					query.misses,
+					query.rebuildTime.average * 1000,
+					query.rebuildTime.peak * 1000,
+				),
+			);
+		}
+
+		lines.push("");
+		lines.push(string.format("%-40s %10s %10s %10s", `Per frame (${report.frames} frames)`, "Avg", "Peak", "Last"));
+		const counters: [string, ProfilerStat][] = [
+			["Archetype moves", report.archetypeMoves],
+			["Entities created", report.entitiesCreated],
+			["Entities destroyed", report.entitiesDestroyed],
+		];
+		for (const [label, stat] of counters) {
+			lines.push(string.format("%-40s %10.1f %10d %10d", label, stat.average, stat.peak, stat.last));
+		}
+
+		return lines.join("\n");
+	}
+
+	/**
+	 * Discards everything recorded so far
+	 */
+	reset(): void {
+		this.frames = 0;
+		this.systems.clear();
+		this.systemOrder = [];
+		this.queries.clear();
+		this.queryOrder = [];
+		this.archetypeMoves = 0;
+		this.entitiesCreated = 0;
+		this.entitiesDestroyed = 0;
+		this.archetypeMoveStat = new RollingStat(this.window);
+		this.entitiesCreatedStat = new RollingStat(this.window);
+		this.entitiesDestroyedStat = new RollingStat(this.window);
+	}
+
+	private getQueryRecord(key: string, describe: () => string): QueryRecord {
+		let record = this.queries.get(key);
+		if (!record) {
+			record = { query: describe(), hits: 0, misses: 0, rebuildTime: new RollingStat(this.window) };
+			this.queries.set(key, record);
+			this.queryOrder.push(key);
+		}
+		return record;
+	}
+}
@@ -0,0 +1,243 @@
+import { Entity, ComponentClass } from "./types";
+import { System } from "./system";
+import { ComponentRegistry, SerializedComponent } from "./serialization";
+import { World } from "./world";
+
+export interface ReplicatedComponent {
+	readonly entity: Entity;
+	/** Registered component name */
+	readonly component: string;
+	readonly data: SerializedComponent;
+}
+
+export interface ReplicatedRemoval {
+	readonly entity: Entity;
+	/** Registered component name */
+	readonly component: string;
+}
+
+/**
+ * Changes to replicated components since the previous packet, keyed by source entity handles
+ */
+export interface ReplicationPacket {
+	readonly spawns: Entity[];
+	readonly despawns: Entity[];
+	readonly sets: ReplicatedComponent[];
+	readonly removes: ReplicatedRemoval[];
+}
+
+/**
+ * Carries packets from a sender to receivers, e.g. over a RemoteEvent
+ */
+export interface ReplicationTransport {
+	send(packet: ReplicationPacket): void;
+
+	/**
+	 * Registers a callback for incoming packets
+	 * @returns A function that disconnects the callback
+	 */
+	connect(callback: (packet: ReplicationPacket) => void): () => void;
+}
+
+/**
+ * Delivers packets synchronously to every connected receiver in the same process
+ */
+export class LoopbackTransport implements ReplicationTransport {
+	private listeners = new Set<(packet: ReplicationPacket) => void>();
+
+	send(packet: ReplicationPacket): void {
+		for (const listener of this.listeners) {
+			listener(packet);
+		}
+	}
+
+	connect(callback: (packet: ReplicationPacket) => void): () => void {
+		this.listeners.add(callback);
+		return () => this.listeners.delete(callback);
+	}
+}
+
+/**
+ * Watches marked component types on a source world and sends a delta packet each time it runs
+ * Add it to the source world as a system; it runs last in its phase
+ */
+export class ReplicationSender implements System {
+	readonly name = "ReplicationSender";
+	readonly priority = math.huge;
+
+	private replicated: ComponentClass[] = [];
+	private knownEntities = new Set<Entity>();
+
+	constructor(
+		private registry: ComponentRegistry,
+		private transport: ReplicationTransport,
+	) {}
+
+	/**
+	 * Marks a component class for replication
+	 * The class must be registered in the sender's registry, so receivers can resolve it by name
+	 */
+	replicate(componentClass: ComponentClass): this {
+		if (this.registry.getName(componentClass) === undefined) {
+			warn(`[ecs-lite] Cannot replicate ${tostring(componentClass)}: it is not registered`);
+			return this;
+		}
+
+		if (!this.replicated.includes(componentClass)) {
+			this.replicated.push(componentClass);
+		}
+		return this;
+	}
+
+	update(world: World): void {
+		const packet = this.createDeltaPacket(world);
+		if (
+			packet.spawns.size() > 0 ||
+			packet.despawns.size() > 0 ||
+			packet.sets.size() > 0 ||
+			packet.removes.size() > 0
+		) {
+			this.transport.send(packet);
+		}
+	}
+
+	/**
+	 * Builds a packet holding the full replicated state, e.g. for a receiver that joins late
+	 */
+	createFullPacket(world: World): ReplicationPacket {
+		const spawns = new Set<Entity>();
+		const sets: ReplicatedComponent[] = [];
+
+		for (const componentClass of this.replicated) {
+			for (const entity of world.getEntitiesWithComponent(componentClass)) {
+				spawns.add(entity);
+				sets.push(this.encode(world, entity, componentClass));
+			}
+		}
+
+		return { spawns: [...spawns], despawns: [], sets, removes: [] };
+	}
+
+	/**
+	 * Collects replicated changes since this sender last ran
+	 */
+	private createDeltaPacket(world: World): ReplicationPacket {
+		const spawns: Entity[] = [];
+		const despawns: Entity[] = [];
+		const sets: ReplicatedComponent[] = [];
+		const removes: ReplicatedRemoval[] = [];
+
+		for (const componentClass of this.replicated) {
+			const name = this.registry.getName(componentClass)!;
+			const handled = new Set<Entity>();
+
+			for (const entity of world.removed(componentClass)) {
+				if (handled.has(entity) || !this.knownEntities.has(entity)) continue;
+				handled.add(entity);
+
+				if (!this.isReplicated(world, entity)) {
+					this.knownEntities.delete(entity);
+					despawns.push(entity);
+				} else if (!world.hasComponent(entity, componentClass)) {
+					removes.push({ entity, component: name });
+				}
+			}
+		}
+
+		for (const componentClass of this.replicated) {
+			for (const entity of world.query(componentClass).changed(componentClass).entities()) {
+				if (!this.knownEntities.has(entity)) {
+					this.knownEntities.add(entity);
+					spawns.push(entity);
+				}
+				sets.push(this.encode(world, entity, componentClass));
+			}
+		}
+
+		return { spawns, despawns, sets, removes };
+	}
+
+	/**
+	 * Checks if a live entity still has any replicated component
+	 */
+	private isReplicated(world: World, entity: Entity): boolean {
+		if (!world.entityExist(entity)) return false;
+		return this.replicated.some((componentClass) => world.hasComponent(entity, componentClass));
+	}
+
+	private encode(world: World, entity: Entity, componentClass: ComponentClass): ReplicatedComponent {
+		return {
+			entity,
+			component: this.registry.getName(componentClass)!,
+			data: this.registry.encode(componentClass, world.getComponent(entity, componentClass)!),
+		};
+	}
+}
+
+/**
+ * Applies packets from a transport to a destination world, mapping source entities to local ones
+ */
+export class ReplicationReceiver {
+	private remoteToLocal = new Map<Entity, Entity>();
+	private disconnect: () => void;
+
+	constructor(
+		private world: World,
+		private registry: ComponentRegistry,
+		transport: ReplicationTransport,
+	) {
+		this.disconnect = transport.connect((packet) => this.apply(packet));
+	}
+
+	/**
+	 * Applies a packet to the destination world
+	 */
+	apply(packet: ReplicationPacket): void {
+		this.world.batch(() => {
+			for (const remote of packet.spawns) {
+				if (!this.remoteToLocal.has(remote)) {
+					this.remoteToLocal.set(remote, this.world.createEntity());
+				}
+			}
+
+			for (const { entity, component: name, data } of packet.sets) {
+				const localEntity = this.remoteToLocal.get(entity);
+				const componentClass = this.registry.getClass(name);
+				if (localEntity === undefined || componentClass === undefined) continue;
+
+				const component = this.registry.decode(name, data, this.remoteToLocal)!;
+				this.world.addComponent(localEntity, componentClass, component);
+			}
+
+			for (const { entity, component: name } of packet.removes) {
+				const localEntity = this.remoteToLocal.get(entity);
+				const componentClass = this.registry.getClass(name);
+				if (localEntity === undefined || componentClass === undefined) continue;
+
+				this.world.removeComponent(localEntity, componentClass);
+			}
+
+			for (const remote of packet.despawns) {
+				const localEntity = this.remoteToLocal.get(remote);
+				if (localEntity === undefined) continue;
+
+				this.remoteToLocal.delete(remote);
+				this.world.destroyEntity(localEntity);
+			}
+		});
+	}
+
+	/**
+	 * Gets the local entity mirroring a source entity
+	 */
+	getLocalEntity(remote: Entity): Entity | undefined {
+		return this.remoteToLocal.get(remote);
+	}
+
+	/**
+	 * Stops receiving packets
+	 */
+	destroy(): void {
+		this.disconnect();
+	}
+}
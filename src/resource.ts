@@ -0,0 +1,84 @@
+import { Component, ComponentClass } from "./types";
+
+interface ResourceSlot {
+	value: Component;
+	changedTick: number;
+}
+
+export class ResourceManager {
+	private resources = new Map<ComponentClass, ResourceSlot>();
+
+	/**
+	 * Sets a resource, replacing any previous value
+	 * @param resourceClass The resource class, used as its key
+	 * @param value The resource value
+	 * @param tick The current change tick
+	 */
+	setResource<T extends Component>(resourceClass: ComponentClass<T>, value: T, tick: number): void {
+		this.resources.set(resourceClass, { value, changedTick: tick });
+	}
+
+	/**
+	 * Gets a resource
+	 * @returns The resource value, or undefined if it isn't set
+	 */
+	getResource<T extends Component>(resourceClass: ComponentClass<T>): T | undefined {
+		return this.resources.get(resourceClass)?.value as T | undefined;
+	}
+
+	/**
+	 * Checks if a resource is set
+	 */
+	hasResource<T extends Component>(resourceClass: ComponentClass<T>): boolean {
+		return this.resources.has(resourceClass);
+	}
+
+	/**
+	 * Removes a resource
+	 * @returns True if the resource was set, false otherwise
+	 */
+	removeResource<T extends Component>(resourceClass: ComponentClass<T>): boolean {
+		if (!this.resources.has(resourceClass)) return false;
+
+		this.resources.delete(resourceClass);
+		return true;
+	}
+
+	/**
+	 * Flags a resource as changed after mutating it in place
+	 * @returns True if the resource is set, false otherwise
+	 */
+	markChanged<T extends Component>(resourceClass: ComponentClass<T>, tick: number): boolean {
+		const slot = this.resources.get(resourceClass);
+		if (!slot) return false;
+
+		slot.changedTick = tick;
+		return true;
+	}
+
+	/**
+	 * Checks if a resource was set or changed after a tick
+	 */
+	isChanged<T extends Component>(resourceClass: ComponentClass<T>, sinceTick: number): boolean {
+		const slot = this.resources.get(resourceClass);
+		return slot !== undefined && slot.changedTick > sinceTick;
+	}
+
+	/**
+	 * Gets all resources, keyed by resource class
+	 */
+	getResources(): Map<ComponentClass, Component> {
+		const result = new Map<ComponentClass, Component>();
+		for (const [resourceClass, slot] of this.resources) {
+			result.set(resourceClass, slot.value);
+		}
+		return result;
+	}
+
+	/**
+	 * Removes all resources
+	 */
+	clear(): void {
+		this.resources.clear();
+	}
+}
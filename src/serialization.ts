@@ -0,0 +1,165 @@
+import { Entity, Component, ComponentClass } from "./types";
+
+/**
+ * Current snapshot format version
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * A component's fields as plain, JSON-encodable data
+ */
+export type SerializedComponent = { [field: string]: unknown };
+
+export interface SerializedEntity {
+	/** The entity handle in the world the snapshot was taken from */
+	readonly id: Entity;
+	/** The entity's parent, if it has one */
+	readonly parent?: Entity;
+	/** Component data keyed by registered component name */
+	readonly components: { [name: string]: SerializedComponent };
+	/** Registered names of the entity's tags */
+	readonly tags?: string[];
+}
+
+export interface WorldSnapshot {
+	readonly version: number;
+	readonly entities: SerializedEntity[];
+	/** Resource data keyed by registered resource name */
+	readonly resources?: { [name: string]: SerializedComponent };
+}
+
+export interface ComponentRegistrationOptions<T extends Component> {
+	/** Fields holding entity handles (or arrays of them) that are remapped on load */
+	readonly entityFields?: ReadonlyArray<keyof T & string>;
+	/** Custom encoder for components whose fields aren't plain data */
+	readonly serialize?: (component: T) => SerializedComponent;
+	/** Custom decoder, paired with serialize */
+	readonly deserialize?: (data: SerializedComponent) => T;
+}
+
+interface ComponentRegistration {
+	readonly name: string;
+	readonly componentClass: ComponentClass;
+	readonly options: ComponentRegistrationOptions<Component>;
+}
+
+/**
+ * Maps stable names to component classes, since component IDs depend on registration order
+ */
+export class ComponentRegistry {
+	private byName = new Map<string, ComponentRegistration>();
+	private byClass = new Map<ComponentClass, ComponentRegistration>();
+
+	/**
+	 * Registers a component class under a stable name
+	 * @param name The name stored in snapshots
+	 * @param componentClass The component class
+	 * @param options Entity reference fields and custom encoding
+	 */
+	register<T extends Component>(
+		name: string,
+		componentClass: ComponentClass<T>,
+		options: ComponentRegistrationOptions<T> = {},
+	): this {
+		if (this.byName.has(name)) {
+			warn(`[ecs-lite] Component name "${name}" is already registered`);
+			return this;
+		}
+
+		const registration = {
+			name,
+			componentClass,
+			options: options as unknown as ComponentRegistrationOptions<Component>,
+		};
+		this.byName.set(name, registration);
+		this.byClass.set(componentClass, registration);
+		return this;
+	}
+
+	/**
+	 * Gets the registered name of a component class
+	 */
+	getName(componentClass: ComponentClass): string | undefined {
+		return this.byClass.get(componentClass)?.name;
+	}
+
+	/**
+	 * Gets the component class registered under a name
+	 */
+	getClass(name: string): ComponentClass | undefined {
+		return this.byName.get(name)?.componentClass;
+	}
+
+	/**
+	 * Encodes a component as plain data, using its registered encoder if it has one
+	 */
+	encode(componentClass: ComponentClass, component: Component): SerializedComponent {
+		const registration = this.byClass.get(componentClass);
+		if (registration?.options.serialize !== undefined) {
+			return registration.options.serialize(component);
+		}
+		return copyFields(component);
+	}
+
+	/**
+	 * Decodes plain data into a component of the class registered under a name,
+	 * remapping entity reference fields through the given table
+	 */
+	decode(name: string, data: SerializedComponent, remap: ReadonlyMap<Entity, Entity>): Component | undefined {
+		const registration = this.byName.get(name);
+		if (registration === undefined) return undefined;
+
+		const fields = copyFields(data);
+		for (const field of registration.options.entityFields ?? []) {
+			fields[field] = remapEntities(fields[field], remap);
+		}
+
+		if (registration.options.deserialize !== undefined) {
+			return registration.options.deserialize(fields);
+		}
+
+		// Bypass the constructor: the snapshot already holds every field
+		return setmetatable(fields, registration.componentClass as unknown as LuaMetatable<SerializedComponent>);
+	}
+}
+
+/**
+ * Deep-copies the fields of a component or plain table, keeping values with metatables as-is
+ */
+function copyFields(source: object): SerializedComponent {
+	const result: SerializedComponent = {};
+	for (const [key, value] of pairs(source)) {
+		result[key as string] = copyValue(value);
+	}
+	return result;
+}
+
+function copyValue(value: unknown): unknown {
+	if (typeIs(value, "table") && getmetatable(value) === undefined) {
+		return copyFields(value);
+	}
+	return value;
+}
+
+/**
+ * Maps an entity handle, or an array of them, to the handles of the loading world
+ * References to entities missing from the snapshot are dropped
+ */
+function remapEntities(value: unknown, remap: ReadonlyMap<Entity, Entity>): unknown {
+	if (typeIs(value, "number")) {
+		return remap.get(value);
+	}
+
+	if (typeIs(value, "table")) {
+		const result: Entity[] = [];
+		for (const entity of value as Entity[]) {
+			const mapped = remap.get(entity);
+			if (mapped !== undefined) {
+				result.push(mapped);
+			}
+		}
+		return result;
+	}
+
+	return value;
+}
@@ -1,6 +1,80 @@
 import { World } from "./world";
+import { ComponentManager } from "./component";
+import { CommandSyncPoint } from "./commands";
+import { ProfiledCallback, Profiler } from "./profiler";
+
+/**
+ * Phases the world runs in sequence each update, unless replaced with World.setPhases
+ */
+export const DEFAULT_PHASES: readonly string[] = ["PreUpdate", "Update", "PostUpdate", "Render"];
+
+/**
+ * Phase systems run in when they don't declare one
+ */
+export const DEFAULT_PHASE = "Update";
+
+/**
+ * Update passes removal records are kept for systems that haven't run, e.g. while their run condition is false
+ * Older records are dropped even if such a system hasn't seen them yet
+ */
+const REMOVAL_RETENTION_PASSES = 600;
+
+/**
+ * Limits how often a system runs; when both are set, both must have passed
+ */
+export interface SystemRate {
+	/** Frames that must pass between runs, e.g. 3 runs every third frame */
+	readonly frames?: number;
+	/** Seconds that must pass between runs */
+	readonly seconds?: number;
+}
+
+/**
+ * Frames and time accumulated since a system's callback last ran
+ */
+interface ScheduleState {
+	frames: number;
+	elapsed: number;
+}
 
 export interface System {
+	/**
+	 * Name used when reporting ordering problems
+	 */
+	readonly name?: string;
+
+	/**
+	 * Named phase this system runs in, defaults to "Update"
+	 */
+	readonly phase?: string;
+
+	/**
+	 * Systems with a lower priority run earlier within their phase, defaults to 0
+	 * Ties keep insertion order
+	 */
+	readonly priority?: number;
+
+	/**
+	 * Limits how often the system runs; when it does run, it receives the time accumulated since it last ran
+	 */
+	readonly rate?: SystemRate;
+
+	/**
+	 * Skips the system while this returns false, e.g. unless a GameState resource says the game is playing
+	 * Time keeps accumulating while it's skipped
+	 */
+	runIf?(world: World): boolean;
+
+	/**
+	 * Systems this system must run before
+	 */
+	readonly before?: readonly System[];
+
+	/**
+	 * Systems this system must run after
+	 */
+	readonly after?: readonly System[];
+
 	/**
 	 * Called when the system is added to the world
 	 * Use this for initialization logic
@@ -34,6 +108,15 @@ export interface System {
 export class SystemManager {
 	private systems: System[] = [];
 	private systemsMap = new Map<System, boolean>();
+	private lastRunTicks = new Map<System, number>();
+	private phases: string[] = [...DEFAULT_PHASES];
+	private orderedPhases: System[][] | undefined;
+	private syncPoint: CommandSyncPoint = "system";
+	private profiler?: Profiler;
+	private disabled = new Set<System>();
+	private schedules = new Map<System, Record<ProfiledCallback, ScheduleState>>();
+	/** Change tick at the end of each recent pass, oldest first */
+	private passTicks: number[] = [];
 
 	/**
 	 * Adds a system to the manager
@@ -42,12 +125,31 @@ export class SystemManager {
 	 */
 	addSystem(system: System, world: World): void {
 		if (this.systemsMap.has(system)) {
-			warn(`[ecs-lite] System ${tostring(system)} is already added to the world`);
+			warn(`[ecs-lite] System ${this.describe(system)} is already added to the world`);
 			return;
 		}
 
+		const phase = system.phase ?? DEFAULT_PHASE;
+		if (!this.phases.includes(phase)) {
+			error(`[ecs-lite] System ${this.describe(system)} uses unknown phase "${phase}"`);
+		}
+
 		this.systems.push(system);
 		this.systemsMap.set(system, true);
+		this.orderedPhases = undefined;
+
+		// Sort now so ordering cycles and cross-phase constraints are reported here, without keeping the system
+		let ordered = false;
+		try {
+			this.getOrderedPhases();
+			ordered = true;
+		} finally {
+			if (!ordered) {
+				this.systems.pop();
+				this.systemsMap.delete(system);
+				this.orderedPhases = undefined;
+			}
+		}
 
 		if (system.onAdded !== undefined) {
 			system.onAdded(world);
@@ -71,6 +173,10 @@ export class SystemManager {
 		}
 
 		this.systemsMap.delete(system);
+		this.lastRunTicks.delete(system);
+		this.disabled.delete(system);
+		this.schedules.delete(system);
+		this.orderedPhases = undefined;
 
 		if (system.onRemoved !== undefined) {
 			system.onRemoved(world);
@@ -79,6 +185,33 @@ export class SystemManager {
 		return true;
 	}
 
+	/**
+	 * Pauses or resumes a system without removing it, so it keeps its place in the order
+	 * Time and changes that pass while it's disabled are not passed on when it resumes
+	 * @param components The component manager tracking change ticks
+	 * @returns False if the system isn't registered, true otherwise
+	 */
+	setSystemEnabled(system: System, enabled: boolean, components: ComponentManager): boolean {
+		if (!this.systemsMap.has(system)) return false;
+
+		if (enabled) {
+			if (this.disabled.delete(system)) {
+				this.schedules.delete(system);
+				this.lastRunTicks.set(system, components.getChangeTick() - 1);
+			}
+		} else {
+			this.disabled.add(system);
+		}
+		return true;
+	}
+
+	/**
+	 * Checks if a system is registered and not disabled
+	 */
+	isSystemEnabled(system: System): boolean {
+		return this.systemsMap.has(system) && !this.disabled.has(system);
+	}
+
 	/**
 	 * Checks if a system is registered
 	 * @param system The system to check
@@ -90,40 +223,329 @@ export class SystemManager {
 
 	/**
 	 * Gets all registered systems
-	 * @returns A copy of the systems array
+	 * @returns A copy of the systems array, in execution order
 	 */
 	getSystems(): System[] {
 		const result: System[] = [];
-		for (const system of this.systems) {
-			result.push(system);
+		for (const systems of this.getOrderedPhases()) {
+			for (const system of systems) {
+				result.push(system);
+			}
 		}
 		return result;
 	}
 
+	/**
+	 * Replaces the named phases systems run in, in execution order
+	 * @param phases The phase names
+	 */
+	setPhases(phases: string[]): void {
+		for (const system of this.systems) {
+			const phase = system.phase ?? DEFAULT_PHASE;
+			if (!phases.includes(phase)) {
+				error(`[ecs-lite] Cannot remove phase "${phase}" while system ${this.describe(system)} uses it`);
+			}
+		}
+
+		const previous = this.phases;
+		this.phases = [...phases];
+		this.orderedPhases = undefined;
+
+		// Reordering phases can contradict existing before/after constraints, so check now and keep the old order
+		let ordered = false;
+		try {
+			this.getOrderedPhases();
+			ordered = true;
+		} finally {
+			if (!ordered) {
+				this.phases = previous;
+				this.orderedPhases = undefined;
+			}
+		}
+	}
+
+	/**
+	 * Gets the named phases in execution order
+	 * @returns A copy of the phases array
+	 */
+	getPhases(): string[] {
+		return [...this.phases];
+	}
+
+	/**
+	 * Sets when the world's command buffer is played back during updates
+	 * @param syncPoint After each system, after each phase, or only manually
+	 */
+	setCommandSyncPoint(syncPoint: CommandSyncPoint): void {
+		this.syncPoint = syncPoint;
+	}
+
+	/**
+	 * Attaches or detaches a profiler that times each system call
+	 */
+	setProfiler(profiler: Profiler | undefined): void {
+		this.profiler = profiler;
+	}
+
+	/**
+	 * Gets when the world's command buffer is played back during updates
+	 */
+	getCommandSyncPoint(): CommandSyncPoint {
+		return this.syncPoint;
+	}
+
+	/**
+	 * Gets systems grouped by phase, each sorted by before/after constraints, then by priority and insertion order
+	 */
+	private getOrderedPhases(): System[][] {
+		if (this.orderedPhases === undefined) {
+			this.orderedPhases = this.phases.map((phase) => this.sortPhase(phase));
+		}
+		return this.orderedPhases;
+	}
+
+	/**
+	 * Topologically sorts the systems of one phase
+	 */
+	private sortPhase(phase: string): System[] {
+		const phaseIndex = this.phases.indexOf(phase);
+		const members = this.systems.filter((system) => (system.phase ?? DEFAULT_PHASE) === phase);
+		const successors = new Map<System, System[]>();
+		const inDegree = new Map<System, number>();
+
+		for (const system of members) {
+			successors.set(system, []);
+			inDegree.set(system, 0);
+		}
+
+		const addEdge = (from: System, to: System) => {
+			if (!this.systemsMap.has(from) || !this.systemsMap.has(to)) return;
+
+			const fromPhase = this.phases.indexOf(from.phase ?? DEFAULT_PHASE);
+			const toPhase = this.phases.indexOf(to.phase ?? DEFAULT_PHASE);
+			if (fromPhase > toPhase) {
+				error(
+					`[ecs-lite] System ${this.describe(from)} must run before ${this.describe(to)}, ` +
+						`but its phase "${from.phase ?? DEFAULT_PHASE}" runs after "${to.phase ?? DEFAULT_PHASE}"`,
+				);
+			}
+			if (fromPhase !== phaseIndex || toPhase !== phaseIndex) return;
+
+			successors.get(from)!.push(to);
+			inDegree.set(to, inDegree.get(to)! + 1);
+		};
+
+		for (const system of members) {
+			for (const other of system.before ?? []) {
+				addEdge(system, other);
+			}
+			for (const other of system.after ?? []) {
+				addEdge(other, system);
+			}
+		}
+
+		const ready = members.filter((system) => inDegree.get(system) === 0);
+		const sorted: System[] = [];
+
+		while (ready.size() > 0) {
+			let best = 0;
+			for (let i = 1; i < ready.size(); i++) {
+				if (this.runsEarlier(ready[i], ready[best])) {
+					best = i;
+				}
+			}
+
+			const system = ready.remove(best)!;
+			sorted.push(system);
+
+			for (const successor of successors.get(system)!) {
+				const degree = inDegree.get(successor)! - 1;
+				inDegree.set(successor, degree);
+				if (degree === 0) {
+					ready.push(successor);
+				}
+			}
+		}
+
+		if (sorted.size() < members.size()) {
+			const remaining = members.filter((system) => !sorted.includes(system));
+			const cycle = this.findCycle(remaining, successors).map((system) => this.describe(system));
+			error(`[ecs-lite] System ordering cycle in phase "${phase}": ${cycle.join(" -> ")}`);
+		}
+
+		return sorted;
+	}
+
+	/**
+	 * Compares two unconstrained systems by priority, then insertion order
+	 */
+	private runsEarlier(a: System, b: System): boolean {
+		const priorityA = a.priority ?? 0;
+		const priorityB = b.priority ?? 0;
+		if (priorityA !== priorityB) {
+			return priorityA < priorityB;
+		}
+		return this.systems.indexOf(a) < this.systems.indexOf(b);
+	}
+
+	/**
+	 * Walks ordering edges backwards among unsorted systems until one repeats, to report the cycle
+	 * Every unsorted system has an unsorted predecessor, while systems only downstream of a cycle have no successor
+	 */
+	private findCycle(remaining: System[], successors: Map<System, System[]>): System[] {
+		const path: System[] = [];
+		let current = remaining[0];
+
+		while (!path.includes(current)) {
+			path.push(current);
+			const target = current;
+			current = remaining.find((other) => successors.get(other)!.includes(target))!;
+		}
+
+		const cycle = [current];
+		for (let i = path.size() - 1; i >= path.indexOf(current); i--) {
+			cycle.push(path[i]);
+		}
+		return cycle;
+	}
+
+	/**
+	 * Gets a readable name for a system
+	 */
+	private describe(system: System): string {
+		return system.name ?? tostring(system);
+	}
+
 	/**
 	 * Updates all systems that have an update method
 	 * @param world The world to pass to the systems
 	 * @param deltaTime Time elapsed since the last update
+	 * @param components The component manager tracking change ticks
 	 */
-	updateSystems(world: World, deltaTime: number): void {
-		for (const system of this.systems) {
-			if (system.update !== undefined) {
-				system.update(world, deltaTime);
+	updateSystems(world: World, deltaTime: number, components: ComponentManager): void {
+		for (const systems of this.getOrderedPhases()) {
+			for (const system of systems) {
+				if (system.update === undefined) continue;
+
+				const elapsed = this.schedule(system, "update", world, deltaTime);
+				if (elapsed !== undefined) {
+					this.runSystem(system, "update", world, components, () => system.update!(world, elapsed));
+				}
 			}
+			this.endPhase(world);
 		}
+		this.endPass(components);
 	}
 
 	/**
 	 * Fixed updates all systems that have a fixedUpdate method
 	 * @param world The world to pass to the systems
 	 * @param fixedDeltaTime Fixed time step
+	 * @param components The component manager tracking change ticks
 	 */
-	fixedUpdateSystems(world: World, fixedDeltaTime: number): void {
-		for (const system of this.systems) {
-			if (system.fixedUpdate !== undefined) {
-				system.fixedUpdate(world, fixedDeltaTime);
+	fixedUpdateSystems(world: World, fixedDeltaTime: number, components: ComponentManager): void {
+		for (const systems of this.getOrderedPhases()) {
+			for (const system of systems) {
+				if (system.fixedUpdate === undefined) continue;
+
+				const elapsed = this.schedule(system, "fixedUpdate", world, fixedDeltaTime);
+				if (elapsed !== undefined) {
+					this.runSystem(system, "fixedUpdate", world, components, () => system.fixedUpdate!(world, elapsed));
+				}
 			}
+			this.endPhase(world);
+		}
+		this.endPass(components);
+	}
+
+	/**
+	 * Accumulates a frame for a system's callback and decides whether it runs
+	 * @returns The time accumulated since the callback last ran, or undefined if it should be skipped
+	 */
+	private schedule(system: System, callback: ProfiledCallback, world: World, deltaTime: number): number | undefined {
+		if (this.disabled.has(system)) return undefined;
+
+		const rate = system.rate;
+		if (rate === undefined && system.runIf === undefined) return deltaTime;
+
+		let schedule = this.schedules.get(system);
+		if (!schedule) {
+			schedule = { update: { frames: 0, elapsed: 0 }, fixedUpdate: { frames: 0, elapsed: 0 } };
+			this.schedules.set(system, schedule);
 		}
+
+		const state = schedule[callback];
+		state.frames++;
+		state.elapsed += deltaTime;
+
+		if (rate?.frames !== undefined && state.frames < rate.frames) return undefined;
+		if (rate?.seconds !== undefined && state.elapsed < rate.seconds) return undefined;
+		if (system.runIf !== undefined && !system.runIf(world)) return undefined;
+
+		const elapsed = state.elapsed;
+		state.frames = 0;
+		state.elapsed = 0;
+		return elapsed;
+	}
+
+	/**
+	 * Runs a system so its change queries only see changes made since it last ran
+	 * Commands it records are played back before its tick ends when syncing per system
+	 */
+	private runSystem(
+		system: System,
+		callback: ProfiledCallback,
+		world: World,
+		components: ComponentManager,
+		run: () => void,
+	): void {
+		components.setLastRunTick(this.lastRunTicks.get(system) ?? 0);
+		if (this.profiler) {
+			const start = this.profiler.clock();
+			run();
+			this.profiler.recordSystem(system, this.describe(system), callback, this.profiler.clock() - start);
+		} else {
+			run();
+		}
+		if (this.syncPoint === "system") {
+			world.commands.playback();
+		}
+		this.lastRunTicks.set(system, components.advanceChangeTick());
+	}
+
+	/**
+	 * Plays back the command buffer at the end of a phase when syncing per phase
+	 */
+	private endPhase(world: World): void {
+		if (this.syncPoint === "phase") {
+			world.commands.playback();
+		}
+	}
+
+	/**
+	 * Ends the pass's change tick, even if no system ran, and points change queries made outside systems at it
+	 * Then drops removal records every enabled system has already seen, or that are too old to keep
+	 */
+	private endPass(components: ComponentManager): void {
+		const endTick = components.advanceChangeTick();
+
+		this.passTicks.push(endTick);
+		if (this.passTicks.size() > REMOVAL_RETENTION_PASSES) {
+			this.passTicks.shift();
+		}
+
+		let seenTick = endTick;
+		for (const [system, tick] of this.lastRunTicks) {
+			if (!this.disabled.has(system)) {
+				seenTick = math.min(seenTick, tick);
+			}
+		}
+		if (this.passTicks.size() === REMOVAL_RETENTION_PASSES) {
+			seenTick = math.max(seenTick, this.passTicks[0]);
+		}
+
+		components.setLastRunTick(endTick);
+		components.pruneRemoved(seenTick);
 	}
 
 	/**
@@ -139,5 +561,10 @@ export class SystemManager {
 
 		this.systems.clear();
 		this.systemsMap.clear();
+		this.lastRunTicks.clear();
+		this.disabled.clear();
+		this.schedules.clear();
+		this.passTicks = [];
+		this.orderedPhases = undefined;
 	}
 }
@@ -0,0 +1,71 @@
+export interface TimestepOptions {
+	/** Fixed updates per second, defaults to 60 */
+	readonly fixedRate?: number;
+	/** Most fixed updates run in one frame; time beyond that is dropped. Defaults to 5 */
+	readonly maxSubsteps?: number;
+	/** Time source in seconds, used when a frame's delta isn't given; defaults to os.clock */
+	readonly clock?: () => number;
+}
+
+/**
+ * Accumulates frame time and decides how many fixed updates each frame runs
+ */
+export class FixedTimestep {
+	readonly fixedDeltaTime: number;
+	readonly maxSubsteps: number;
+
+	private clock: () => number;
+	private accumulator = 0;
+	private alpha = 0;
+	private lastTime: number | undefined;
+
+	constructor(options: TimestepOptions = {}) {
+		const fixedRate = options.fixedRate ?? 60;
+		if (fixedRate <= 0) {
+			error(`[ecs-lite] Fixed rate must be positive, got ${fixedRate}`);
+		}
+
+		this.fixedDeltaTime = 1 / fixedRate;
+		this.maxSubsteps = math.max(options.maxSubsteps ?? 5, 1);
+		this.clock = options.clock ?? os.clock;
+	}
+
+	/**
+	 * Measures the time since the previous measurement with the clock
+	 * @returns The elapsed seconds, or 0 the first time
+	 */
+	measureFrame(): number {
+		const now = this.clock();
+		const frameDelta = this.lastTime !== undefined ? now - this.lastTime : 0;
+		this.lastTime = now;
+		return frameDelta;
+	}
+
+	/**
+	 * Adds a frame's time to the accumulator and consumes it in fixed steps
+	 * When more than maxSubsteps are due, the excess time is dropped so slow frames can't snowball
+	 * @returns How many fixed updates to run this frame
+	 */
+	advance(frameDelta: number): number {
+		this.accumulator += math.max(frameDelta, 0);
+
+		let steps = math.floor(this.accumulator / this.fixedDeltaTime);
+		if (steps > this.maxSubsteps) {
+			steps = this.maxSubsteps;
+			this.accumulator %= this.fixedDeltaTime;
+		} else {
+			this.accumulator -= steps * this.fixedDeltaTime;
+		}
+
+		this.alpha = this.accumulator / this.fixedDeltaTime;
+		return steps;
+	}
+
+	/**
+	 * How far the current frame is between the last fixed update and the next one, from 0 to 1
+	 * Render systems blend the previous and current fixed states by it
+	 */
+	getAlpha(): number {
+		return this.alpha;
+	}
+}
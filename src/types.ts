@@ -7,17 +7,110 @@ export interface Component {
 export type ComponentClass<T extends Component = Component> = new (...args: never[]) => T;
 export type ComponentQuery = ComponentClass[];
 
+/**
+ * A component that can be reused through a pool instead of being garbage collected
+ */
+export interface PooledComponent extends Component {
+	/** Restores default values before the component goes back into its pool */
+	reset(): void;
+}
+
+export type PooledComponentClass<T extends PooledComponent = PooledComponent> = new () => T;
+
+export interface ComponentPoolStats {
+	readonly class: ComponentClass;
+	/** Components waiting in the pool */
+	readonly available: number;
+	/** Most components the pool keeps; more are left to the garbage collector */
+	readonly capacity: number;
+	/** Components constructed because the pool was empty */
+	readonly created: number;
+	/** Components taken from the pool */
+	readonly reused: number;
+}
+
+/** Instance types of a tuple of component classes, e.g. [Position, Velocity] for [typeof Position, typeof Velocity] */
+export type ComponentInstances<T extends ComponentClass[]> = {
+	[K in keyof T]: T[K] extends ComponentClass<infer C> ? C : never;
+};
+
+/** Instance types of a tuple of component classes, each of which may be missing */
+export type OptionalComponentInstances<T extends ComponentClass[]> = {
+	[K in keyof T]: T[K] extends ComponentClass<infer C> ? C | undefined : never;
+};
+
+export interface ComponentEntry<T extends Component = Component> {
+	readonly class: ComponentClass<T>;
+	readonly component: T;
+}
+
+export interface ComponentFactory<T extends Component = Component> {
+	readonly class: ComponentClass<T>;
+	/** Creates the component for one entity, given the entity's position in the batch */
+	readonly create: (index: number) => T;
+}
+
+export interface QueryFilter {
+	/** Components an entity must have all of */
+	readonly all: ComponentQuery;
+	/** Components an entity must have none of */
+	readonly none?: ComponentQuery;
+	/** Components an entity must have at least one of */
+	readonly any?: ComponentQuery;
+	/** Components that must have been added since the current system last ran; tags are only required */
+	readonly added?: ComponentQuery;
+	/** Components that must have been added or changed since the current system last ran; tags are only required */
+	readonly changed?: ComponentQuery;
+}
+
 export type ComponentId = number;
 
+export type ComponentListener<T extends Component = Component> = (entity: Entity, component: T) => void;
+export type EntityListener = (entity: Entity) => void;
+/**
+ * Called once an entity is destroyed, with the components it had, since they can no longer be read from the world
+ */
+export type EntityDestroyedListener = (entity: Entity, components: ReadonlyMap<ComponentClass, Component>) => void;
+
+/**
+ * Callbacks for entities starting or stopping matching a query
+ */
+export interface QueryObserver {
+	/** Called after an entity starts matching, once its new components are in place */
+	readonly onEnter?: EntityListener;
+	/**
+	 * Called after an entity stops matching, once the change is complete
+	 * Components it lost can no longer be read; keep what cleanup needs elsewhere, or use onComponentRemoved
+	 */
+	readonly onExit?: EntityListener;
+}
+
 export interface Archetype {
 	readonly signature: ComponentId[];
+	/** Every component and tag ID in the signature, for fast membership checks */
+	readonly signatureSet: Set<ComponentId>;
 	readonly entities: Entity[];
+	/** Storage columns, one per component; tags have none */
 	readonly componentArrays: Map<ComponentId, Component[]>;
+	/** Change tick at which each entity's component was added, parallel to componentArrays */
+	readonly addedTicks: Map<ComponentId, number[]>;
+	/** Change tick at which each entity's component was last added or changed */
+	readonly changedTicks: Map<ComponentId, number[]>;
+	/** Cached transitions to the archetype with one more component or tag */
+	readonly addEdges: Map<ComponentId, Archetype>;
+	/** Cached transitions to the archetype with one component or tag fewer */
+	readonly removeEdges: Map<ComponentId, Archetype>;
 }
 
 export interface QueryCache {
 	readonly signature: ComponentId[];
-	entities: Entity[];
-	archetypes: Set<Archetype>;
-	needsUpdate: boolean;
+	readonly without: ComponentId[];
+	readonly anyOf: ComponentId[];
+	/** Archetypes matching the query, kept up to date as new archetypes are created */
+	readonly archetypes: Archetype[];
+}
+
+export interface RemovedComponent {
+	readonly entity: Entity;
+	readonly tick: number;
 }
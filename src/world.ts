@@ -1,12 +1,54 @@
-import { Entity, Component, ComponentClass } from "./types";
+import {
+	Entity,
+	Component,
+	ComponentClass,
+	ComponentEntry,
+	ComponentFactory,
+	ComponentInstances,
+	ComponentListener,
+	EntityDestroyedListener,
+	OptionalComponentInstances,
+	QueryFilter,
+	QueryObserver,
+	PooledComponent,
+	PooledComponentClass,
+	ComponentPoolStats,
+} from "./types";
 import { EntityManager } from "./entity";
 import { ComponentManager } from "./component";
 import { System, SystemManager } from "./system";
+import { HierarchyManager } from "./hierarchy";
+import { Prefab } from "./prefab";
+import { ResourceManager } from "./resource";
+import { CommandBuffer, CommandSyncPoint } from "./commands";
+import { Profiler } from "./profiler";
+import { FixedTimestep, TimestepOptions } from "./timestep";
+import { EventChannel, EventClass, EventManager } from "./events";
+import { ArchetypeInfo, DumpedEntity, EntityInspection, WorldDump, dumpComponent, formatWorldDump } from "./inspect";
+import {
+	ComponentRegistry,
+	SerializedComponent,
+	SerializedEntity,
+	SNAPSHOT_VERSION,
+	WorldSnapshot,
+} from "./serialization";
 
 export class World {
 	private entityManager: EntityManager = new EntityManager();
 	private componentManager: ComponentManager = new ComponentManager();
 	private systemManager: SystemManager = new SystemManager();
+	private hierarchyManager: HierarchyManager = new HierarchyManager();
+	private resourceManager: ResourceManager = new ResourceManager();
+	private eventManager: EventManager = new EventManager();
+	private profiler?: Profiler;
+	/** Entities whose destruction is in progress, so destroying them again does nothing */
+	private destroying = new Set<Entity>();
+	private timestep = new FixedTimestep();
+
+	/**
+	 * Deferred structural changes, played back at the configured sync point during updates
+	 */
+	readonly commands: CommandBuffer = new CommandBuffer(this, this.entityManager);
 
 	/**
 	 * Creates a new entity
@@ -17,10 +59,220 @@ export class World {
 
 	/**
 	 * Destroys an entity and removes all its components
+	 * @param recursive Also destroy all descendants, deepest first; otherwise children are orphaned
+	 */
+	destroyEntity(entity: Entity, recursive = false): void {
+		if (!this.entityManager.entityExist(entity) || this.destroying.has(entity)) return;
+		this.componentManager.assertUnlocked();
+
+		// Lifecycle callbacks run once the entity is gone, so they can't act on it halfway through
+		this.batch(() => {
+			this.destroying.add(entity);
+			try {
+				if (recursive) {
+					const descendants = this.hierarchyManager.getDescendants(entity);
+					for (let i = descendants.size() - 1; i >= 0; i--) {
+						this.destroyEntity(descendants[i]);
+					}
+				}
+
+				this.componentManager.notifyEntityDestroyed(entity);
+				this.componentManager.removeAllComponents(entity);
+				this.hierarchyManager.remove(entity);
+				this.entityManager.destroyEntity(entity);
+			} finally {
+				this.destroying.delete(entity);
+			}
+		});
+	}
+
+	/**
+	 * Destroys many entities at once, removing their components in one pass per archetype
+	 * @param recursive Also destroy all descendants; otherwise children are orphaned
+	 */
+	destroyEntities(entities: Entity[], recursive = false): void {
+		const doomed: Entity[] = [];
+		const seen = new Set<Entity>();
+		const collect = (entity: Entity) => {
+			if (seen.has(entity) || !this.entityManager.entityExist(entity)) return;
+			seen.add(entity);
+			doomed.push(entity);
+		};
+
+		for (const entity of entities) {
+			if (recursive) {
+				const descendants = this.hierarchyManager.getDescendants(entity);
+				for (let i = descendants.size() - 1; i >= 0; i--) {
+					collect(descendants[i]);
+				}
+			}
+			collect(entity);
+		}
+
+		this.destroyLiveEntities(doomed, true);
+	}
+
+	/**
+	 * Destroys distinct live entities in bulk
+	 * @param releaseComponents Return pooled components to their pools; false when they now live in another world
+	 */
+	private destroyLiveEntities(entities: Entity[], releaseComponents: boolean): void {
+		if (entities.size() === 0) return;
+		this.componentManager.assertUnlocked();
+
+		this.batch(() => {
+			for (const entity of entities) {
+				this.componentManager.notifyEntityDestroyed(entity);
+			}
+			this.componentManager.removeEntities(entities, releaseComponents);
+			for (const entity of entities) {
+				this.hierarchyManager.remove(entity);
+				this.entityManager.destroyEntity(entity);
+			}
+		});
+	}
+
+	/**
+	 * Destroys every entity matching a query
+	 */
+	despawnQuery(query: QueryBuilder<Component[], (Component | undefined)[]>, recursive = false): void {
+		this.destroyEntities(query.entities(), recursive);
+	}
+
+	/**
+	 * Moves an entity with its components and tags into another world, destroying it in this one
+	 * Component instances move as-is; entity handles stored inside them are not rewritten
+	 * Its children are orphaned; pass recursive as true to move them along
+	 * @returns The entity's handle in the other world, or undefined if it doesn't exist
+	 */
+	transferEntity(entity: Entity, other: World, recursive?: false): Entity | undefined;
+	/**
+	 * Moves an entity and all its descendants into another world, keeping their hierarchy, and destroys them here
+	 * Component instances move as-is; entity handles stored inside them are not rewritten
+	 * @returns A map from each moved entity's handle to its handle in the other world, empty if it doesn't exist
+	 */
+	transferEntity(entity: Entity, other: World, recursive: true): Map<Entity, Entity>;
+	transferEntity(entity: Entity, other: World, recursive = false): Entity | Map<Entity, Entity> | undefined {
+		if (!this.assertEntityExist(entity)) return recursive ? new Map() : undefined;
+
+		const entities = recursive ? [entity, ...this.hierarchyManager.getDescendants(entity)] : [entity];
+		let remap: Map<Entity, Entity>;
+		if (other === this) {
+			remap = new Map();
+			for (const moved of entities) {
+				remap.set(moved, moved);
+			}
+		} else {
+			remap = this.transferEntities(entities, other);
+		}
+
+		return recursive ? remap : remap.get(entity);
+	}
+
+	/**
+	 * Moves every entity of another world into this one, leaving the other world empty
+	 * Resources this world doesn't have are moved too; the rest stay in the other world
+	 * @returns A map from the other world's entity handles to their handles in this world
 	 */
-	destroyEntity(entity: Entity): void {
-		this.componentManager.removeAllComponents(entity);
-		this.entityManager.destroyEntity(entity);
+	merge(other: World): Map<Entity, Entity> {
+		if (other === this) return new Map();
+
+		const entities = [...other.entityManager.getAllEntities()].sort((a, b) => a < b);
+		const remap = other.transferEntities(entities, this);
+
+		for (const [resourceClass, value] of other.resourceManager.getResources()) {
+			if (this.hasResource(resourceClass)) continue;
+
+			this.setResource(resourceClass, value);
+			other.resourceManager.removeResource(resourceClass);
+		}
+
+		return remap;
+	}
+
+	/**
+	 * Recreates entities in another world, keeping relationships among them, then destroys them here
+	 * Components are looked up by class, so each world's component IDs don't need to agree
+	 */
+	private transferEntities(entities: Entity[], target: World): Map<Entity, Entity> {
+		const remap = new Map<Entity, Entity>();
+		for (const entity of entities) {
+			remap.set(entity, target.createEntity());
+		}
+
+		target.batch(() => {
+			for (const entity of entities) {
+				const destination = remap.get(entity)!;
+
+				const entries: ComponentEntry[] = [];
+				for (const [componentClass, component] of this.componentManager.getEntityComponents(entity)) {
+					entries.push({ class: componentClass, component });
+				}
+				if (entries.size() > 0) {
+					target.componentManager.addComponents(destination, entries);
+				}
+
+				for (const tagClass of this.componentManager.getEntityTags(entity)) {
+					target.componentManager.addTag(destination, tagClass);
+				}
+			}
+
+			// Walks children rather than parents so siblings keep their order
+			for (const entity of entities) {
+				for (const child of this.hierarchyManager.getChildren(entity)) {
+					const destination = remap.get(child);
+					if (destination !== undefined) {
+						target.hierarchyManager.setParent(destination, remap.get(entity)!);
+					}
+				}
+			}
+		});
+
+		this.destroyLiveEntities(entities, false);
+		return remap;
+	}
+
+	/**
+	 * Checks if an entity handle refers to a live entity
+	 * Returns false for stale handles whose entity was destroyed, even if its index was reused
+	 */
+	entityExist(entity: Entity): boolean {
+		return this.entityManager.entityExist(entity);
+	}
+
+	/**
+	 * Sets or clears an entity's parent
+	 * Parenting an entity to itself or one of its descendants is rejected with a warning
+	 */
+	setParent(child: Entity, parent: Entity | undefined): this {
+		if (!this.assertEntityExist(child)) return this;
+		if (parent !== undefined && !this.assertEntityExist(parent)) return this;
+
+		if (!this.hierarchyManager.setParent(child, parent)) {
+			warn(`[ecs-lite] Cannot parent entity ${child} to ${parent}: it would create a cycle`);
+		}
+		return this;
+	}
+
+	/**
+	 * Gets an entity's parent
+	 */
+	getParent(child: Entity): Entity | undefined {
+		return this.hierarchyManager.getParent(child);
+	}
+
+	/**
+	 * Gets an entity's direct children
+	 */
+	getChildren(parent: Entity): Entity[] {
+		return this.hierarchyManager.getChildren(parent);
+	}
+
+	/**
+	 * Gets all descendants of an entity, depth-first with parents before their children
+	 */
+	getDescendants(entity: Entity): Entity[] {
+		return this.hierarchyManager.getDescendants(entity);
 	}
 
 	/**
@@ -42,37 +294,186 @@ export class World {
 		}
 	}
 
+	/**
+	 * Calls back whenever an entity gains a component of this class
+	 * Inside a batch, callbacks are delivered once the batch ends
+	 * @returns A function that disconnects the callback
+	 */
+	onComponentAdded<T extends Component>(
+		componentClass: ComponentClass<T>,
+		callback: ComponentListener<T>,
+	): () => void {
+		return this.componentManager.onComponentAdded(componentClass, callback);
+	}
+
+	/**
+	 * Calls back whenever an entity loses a component of this class, including when it is destroyed
+	 * The callback receives the outgoing component value
+	 * @returns A function that disconnects the callback
+	 */
+	onComponentRemoved<T extends Component>(
+		componentClass: ComponentClass<T>,
+		callback: ComponentListener<T>,
+	): () => void {
+		return this.componentManager.onComponentRemoved(componentClass, callback);
+	}
+
+	/**
+	 * Calls back whenever an entity is destroyed, once it and its components are gone
+	 * The components it had are passed in, so external resources tied to them can still be cleaned up
+	 * @returns A function that disconnects the callback
+	 */
+	onEntityDestroyed(callback: EntityDestroyedListener): () => void {
+		return this.componentManager.onEntityDestroyed(callback);
+	}
+
 	/**
 	 * Adds a component to an entity
 	 */
 	addComponent<T extends Component>(entity: Entity, componentClass: ComponentClass<T>, component: T): this {
+		if (!this.assertEntityExist(entity)) return this;
+
 		this.componentManager.addComponent(entity, componentClass, component);
 		return this;
 	}
 
 	/**
-	 * Adds multiple components to an entity efficiently
+	 * Adds a component taken from its type's pool, constructing one if the pool is empty
+	 * When the component later leaves the entity (removed, replaced or destroyed), it is reset and returned
+	 * to the pool, so don't keep references to it afterwards
+	 * @param init Sets the component's values for this entity
 	 */
-	addComponents(entity: Entity, components: Array<{ class: ComponentClass; component: Component }>): this {
-		this.batch(() => {
-			for (const { class: componentClass, component } of components) {
-				this.componentManager.addComponent(entity, componentClass, component);
-			}
-		});
+	addPooled<T extends PooledComponent>(
+		entity: Entity,
+		componentClass: PooledComponentClass<T>,
+		init?: (component: T) => void,
+	): this {
+		if (!this.assertEntityExist(entity)) return this;
+
+		const component = this.componentManager.acquireComponent(componentClass);
+		if (init !== undefined) {
+			init(component);
+		}
+		this.componentManager.addComponent(entity, componentClass, component);
+		return this;
+	}
+
+	/**
+	 * Sets how many components a type's pool keeps, 1000 by default
+	 * Only components added with addPooled return to the pool; ones constructed by the caller are left alone
+	 */
+	setPoolCapacity<T extends PooledComponent>(componentClass: PooledComponentClass<T>, capacity: number): this {
+		this.componentManager.setPoolCapacity(componentClass, capacity);
+		return this;
+	}
+
+	/**
+	 * Adds multiple components to an entity with a single archetype transition
+	 */
+	addComponents(entity: Entity, components: ComponentEntry[]): this {
+		if (!this.assertEntityExist(entity)) return this;
+
+		this.componentManager.addComponents(entity, components);
 		return this;
 	}
 
+	/**
+	 * Creates an entity from a prefab, directly in its final archetype
+	 * @param prefab The prefab to instantiate
+	 * @param overrides Components replacing the prefab's defaults of the same class, or added on top
+	 */
+	spawn(prefab: Prefab, overrides: ComponentEntry[] = []): Entity {
+		this.componentManager.assertUnlocked();
+
+		const entity = this.entityManager.createEntity();
+		this.componentManager.addComponents(entity, prefab.instantiate(overrides));
+		return entity;
+	}
+
+	/**
+	 * Creates many entities with the same components, placing them straight into one archetype
+	 * @param count How many entities to create
+	 * @param components Create each entity's components, e.g. { class: Bullet, create: (i) => new Bullet(speeds[i]) }
+	 * @returns The new entities, in creation order
+	 */
+	spawnMany(count: number, components: ComponentFactory[]): Entity[] {
+		this.componentManager.assertUnlocked();
+
+		const entities: Entity[] = [];
+		for (let i = 0; i < count; i++) {
+			entities.push(this.entityManager.createEntity());
+		}
+		this.componentManager.spawnBatch(entities, components);
+		return entities;
+	}
+
 	/**
 	 * Gets a component from an entity
 	 */
 	getComponent<T extends Component>(entity: Entity, componentClass: ComponentClass<T>): T | undefined {
+		if (!this.entityManager.entityExist(entity)) return undefined;
 		return this.componentManager.getComponent(entity, componentClass);
 	}
 
+	/**
+	 * Adds a tag to an entity
+	 * Tags are marker classes that take part in queries but store no value
+	 */
+	addTag<T extends Component>(entity: Entity, tagClass: ComponentClass<T>): this {
+		if (!this.assertEntityExist(entity)) return this;
+
+		this.componentManager.addTag(entity, tagClass);
+		return this;
+	}
+
+	/**
+	 * Removes a tag from an entity
+	 */
+	removeTag<T extends Component>(entity: Entity, tagClass: ComponentClass<T>): this {
+		if (!this.assertEntityExist(entity)) return this;
+
+		this.componentManager.removeComponent(entity, tagClass);
+		return this;
+	}
+
+	/**
+	 * Checks if a class is used as a tag
+	 */
+	isTag<T extends Component>(tagClass: ComponentClass<T>): boolean {
+		return this.componentManager.isTag(tagClass);
+	}
+
+	/**
+	 * Checks if an entity has a tag
+	 */
+	hasTag<T extends Component>(entity: Entity, tagClass: ComponentClass<T>): boolean {
+		return this.hasComponent(entity, tagClass);
+	}
+
+	/**
+	 * Flags a component as changed after mutating it in place
+	 * Replacing a component with addComponent marks it changed automatically
+	 */
+	markChanged<T extends Component>(entity: Entity, componentClass: ComponentClass<T>): this {
+		if (!this.assertEntityExist(entity)) return this;
+
+		this.componentManager.markChanged(entity, componentClass);
+		return this;
+	}
+
+	/**
+	 * Gets entities that lost a component since the current system last ran
+	 * Outside of systems, this covers removals since the last update or fixedUpdate finished
+	 */
+	removed<T extends Component>(componentClass: ComponentClass<T>): Entity[] {
+		return this.componentManager.getRemoved(componentClass);
+	}
+
 	/**
 	 * Checks if an entity has a specific component
 	 */
 	hasComponent<T extends Component>(entity: Entity, componentClass: ComponentClass<T>): boolean {
+		if (!this.entityManager.entityExist(entity)) return false;
 		return this.componentManager.hasComponent(entity, componentClass);
 	}
 
@@ -80,6 +481,8 @@ export class World {
 	 * Checks if an entity has all specified components
 	 */
 	hasComponents(entity: Entity, componentClasses: ComponentClass[]): boolean {
+		if (!this.entityManager.entityExist(entity)) return false;
+
 		for (const componentClass of componentClasses) {
 			if (!this.componentManager.hasComponent(entity, componentClass)) {
 				return false;
@@ -92,6 +495,8 @@ export class World {
 	 * Removes a component from an entity
 	 */
 	removeComponent<T extends Component>(entity: Entity, componentClass: ComponentClass<T>): this {
+		if (!this.assertEntityExist(entity)) return this;
+
 		this.componentManager.removeComponent(entity, componentClass);
 		return this;
 	}
@@ -100,6 +505,8 @@ export class World {
 	 * Removes multiple components from an entity efficiently
 	 */
 	removeComponents(entity: Entity, componentClasses: ComponentClass[]): this {
+		if (!this.assertEntityExist(entity)) return this;
+
 		this.batch(() => {
 			for (const componentClass of componentClasses) {
 				this.componentManager.removeComponent(entity, componentClass);
@@ -108,6 +515,59 @@ export class World {
 		return this;
 	}
 
+	/**
+	 * Sets a world-level singleton resource, replacing any previous value
+	 */
+	setResource<T extends Component>(resourceClass: ComponentClass<T>, value: T): this {
+		this.resourceManager.setResource(resourceClass, value, this.componentManager.getChangeTick());
+		return this;
+	}
+
+	/**
+	 * Gets a resource, or undefined if it isn't set
+	 */
+	getResource<T extends Component>(resourceClass: ComponentClass<T>): T | undefined {
+		return this.resourceManager.getResource(resourceClass);
+	}
+
+	/**
+	 * Checks if a resource is set
+	 */
+	hasResource<T extends Component>(resourceClass: ComponentClass<T>): boolean {
+		return this.resourceManager.hasResource(resourceClass);
+	}
+
+	/**
+	 * Removes a resource
+	 */
+	removeResource<T extends Component>(resourceClass: ComponentClass<T>): this {
+		this.resourceManager.removeResource(resourceClass);
+		return this;
+	}
+
+	/**
+	 * Flags a resource as changed after mutating it in place
+	 */
+	markResourceChanged<T extends Component>(resourceClass: ComponentClass<T>): this {
+		this.resourceManager.markChanged(resourceClass, this.componentManager.getChangeTick());
+		return this;
+	}
+
+	/**
+	 * Checks if a resource was set or changed since the current system last ran
+	 */
+	resourceChanged<T extends Component>(resourceClass: ComponentClass<T>): boolean {
+		return this.resourceManager.isChanged(resourceClass, this.componentManager.getLastRunTick());
+	}
+
+	/**
+	 * Gets the event channel for an event class, e.g. world.events(DamageEvent).send(new DamageEvent(target, 10))
+	 * Events stay readable until the end of the update after the one they were sent in
+	 */
+	events<T extends object>(eventClass: EventClass<T>): EventChannel<T> {
+		return this.eventManager.getChannel(eventClass);
+	}
+
 	/**
 	 * Gets all entities that have a specific component
 	 */
@@ -122,6 +582,37 @@ export class World {
 		return this.componentManager.getEntitiesWithComponents(componentClasses);
 	}
 
+	/**
+	 * Gets all entities matching a filter of required, excluded and any-of components
+	 */
+	getEntitiesMatching(filter: QueryFilter): Entity[] {
+		return this.componentManager.getEntitiesMatching(filter);
+	}
+
+	/**
+	 * Calls observer callbacks when entities start or stop matching a filter
+	 * Callbacks run after the change that caused them completes, or when the enclosing batch ends,
+	 * so they may add and remove components or destroy entities
+	 * Entities that already match when observing starts don't trigger onEnter
+	 * Observers are lost when the world is cleared
+	 * @returns A function that stops the observer
+	 */
+	observe(filter: QueryFilter, observer: QueryObserver): () => void {
+		return this.componentManager.observe(filter, observer);
+	}
+
+	/**
+	 * Walks the archetypes matching a filter, passing each one's entities and component columns
+	 * See ComponentManager.forEachChunk for the rules on changes during iteration
+	 */
+	forEachChunk(
+		filter: QueryFilter,
+		columnClasses: ComponentClass[],
+		callback: (entities: readonly Entity[], columns: ReadonlyArray<readonly Component[]>, count: number) => void,
+	): void {
+		this.componentManager.forEachChunk(filter, columnClasses, callback);
+	}
+
 	/**
 	 * Gets components for multiple entities efficiently
 	 */
@@ -134,13 +625,16 @@ export class World {
 
 	/**
 	 * Advanced query builder for complex queries
+	 * Component types are inferred from the classes, e.g. query(Position, Velocity) yields [Position, Velocity]
+	 * Tags have no instance to fetch, so list them with .with(Tag) instead; fetching one errors
 	 */
-	query(...componentClasses: ComponentClass[]): QueryBuilder {
+	query<T extends ComponentClass[]>(...componentClasses: T): QueryBuilder<ComponentInstances<T>> {
 		return new QueryBuilder(this, componentClasses);
 	}
 
 	/**
 	 * Adds a system to the world
+	 * Errors without adding it if its before/after constraints form a cycle or contradict the phase order
 	 */
 	addSystem(system: System): this {
 		this.systemManager.addSystem(system, this);
@@ -155,6 +649,54 @@ export class World {
 		return this;
 	}
 
+	/**
+	 * Replaces the named phases systems run in, in execution order
+	 * Errors without changing them if a system uses a dropped phase or its constraints contradict the new order
+	 */
+	setPhases(phases: string[]): this {
+		this.systemManager.setPhases(phases);
+		return this;
+	}
+
+	/**
+	 * Gets the named phases systems run in, in execution order
+	 */
+	getPhases(): string[] {
+		return this.systemManager.getPhases();
+	}
+
+	/**
+	 * Creates a separate command buffer that is only played back when its playback method is called
+	 */
+	createCommandBuffer(): CommandBuffer {
+		return new CommandBuffer(this, this.entityManager);
+	}
+
+	/**
+	 * Sets when the world's command buffer is played back during update and fixedUpdate
+	 */
+	setCommandSyncPoint(syncPoint: CommandSyncPoint): this {
+		this.systemManager.setCommandSyncPoint(syncPoint);
+		return this;
+	}
+
+	/**
+	 * Pauses or resumes a system without removing it, so it keeps its place in the order and skips onRemoved
+	 */
+	setSystemEnabled(system: System, enabled: boolean): this {
+		if (!this.systemManager.setSystemEnabled(system, enabled, this.componentManager)) {
+			warn(`[ecs-lite] Cannot ${enabled ? "enable" : "disable"} a system that isn't added to the world`);
+		}
+		return this;
+	}
+
+	/**
+	 * Checks if a system is added to the world and not disabled
+	 */
+	isSystemEnabled(system: System): boolean {
+		return this.systemManager.isSystemEnabled(system);
+	}
+
 	/**
 	 * Checks if a system is registered in the world
 	 */
@@ -163,32 +705,92 @@ export class World {
 	}
 
 	/**
-	 * Gets all registered systems
+	 * Gets all registered systems in execution order
 	 */
 	getSystems(): readonly System[] {
 		return this.systemManager.getSystems();
 	}
 
+	/**
+	 * Attaches a profiler that records system times, query cache use, archetype moves and entity churn
+	 * A profiling frame ends after each update; pass undefined to stop profiling
+	 */
+	setProfiler(profiler: Profiler | undefined): this {
+		this.profiler = profiler;
+		this.entityManager.setProfiler(profiler);
+		this.componentManager.setProfiler(profiler);
+		this.systemManager.setProfiler(profiler);
+		return this;
+	}
+
+	/**
+	 * Gets the attached profiler
+	 */
+	getProfiler(): Profiler | undefined {
+		return this.profiler;
+	}
+
 	/**
 	 * Updates all systems in the world
 	 */
 	update(deltaTime: number): void {
-		this.systemManager.updateSystems(this, deltaTime);
+		this.systemManager.updateSystems(this, deltaTime, this.componentManager);
+		this.eventManager.update();
+		this.profiler?.endFrame();
+	}
+
+	/**
+	 * Runs one frame: as many fixed updates as the accumulated time calls for, then an update
+	 * @param frameDelta Seconds since the previous frame; measured with the timestep's clock when omitted
+	 */
+	step(frameDelta = this.timestep.measureFrame()): void {
+		const steps = this.timestep.advance(frameDelta);
+		for (let i = 0; i < steps; i++) {
+			this.fixedUpdate(this.timestep.fixedDeltaTime);
+		}
+		this.update(frameDelta);
+	}
+
+	/**
+	 * Configures the fixed rate, substep cap and clock used by step, resetting its accumulated time
+	 */
+	setTimestep(options: TimestepOptions): this {
+		this.timestep = new FixedTimestep(options);
+		return this;
+	}
+
+	/**
+	 * Gets the fixed time step that step passes to fixedUpdate
+	 */
+	getFixedDeltaTime(): number {
+		return this.timestep.fixedDeltaTime;
+	}
+
+	/**
+	 * Gets how far the current frame is between fixed updates, from 0 to 1, for render interpolation
+	 */
+	getInterpolationAlpha(): number {
+		return this.timestep.getAlpha();
 	}
 
 	/**
 	 * Fixed updates all systems in the world
 	 */
 	fixedUpdate(fixedDeltaTime: number): void {
-		this.systemManager.fixedUpdateSystems(this, fixedDeltaTime);
+		this.systemManager.fixedUpdateSystems(this, fixedDeltaTime, this.componentManager);
 	}
 
 	/**
-	 * Clears the world by removing all entities, components, and systems
+	 * Clears the world by removing all entities, components, systems and lifecycle observers
 	 */
 	clear(): void {
 		this.systemManager.clear(this);
+		this.commands.clear();
 		this.componentManager = new ComponentManager();
+		this.componentManager.setProfiler(this.profiler);
+		this.hierarchyManager.clear();
+		this.resourceManager.clear();
+		this.eventManager.clear();
 		this.entityManager.clear();
 	}
 
@@ -200,6 +802,7 @@ export class World {
 		archetypes: number;
 		cachedQueries: number;
 		componentTypes: number;
+		pools: ComponentPoolStats[];
 		systems: number;
 	} {
 		const componentStats = this.componentManager.getStats();
@@ -209,19 +812,215 @@ export class World {
 		};
 	}
 
+	/**
+	 * Gets an entity's components, tags and relationships, e.g. for a debug overlay
+	 * @returns The inspection, or undefined if the entity doesn't exist
+	 */
+	inspect(entity: Entity): EntityInspection | undefined {
+		if (!this.entityManager.entityExist(entity)) return undefined;
+
+		return {
+			entity,
+			components: this.componentManager.getComponentEntries(entity),
+			tags: this.componentManager.getEntityTags(entity),
+			parent: this.hierarchyManager.getParent(entity),
+			children: this.hierarchyManager.getChildren(entity),
+		};
+	}
+
+	/**
+	 * Describes every archetype with its components, tags and entity count
+	 */
+	getArchetypes(): ArchetypeInfo[] {
+		return this.componentManager.getArchetypes();
+	}
+
+	/**
+	 * Dumps the whole world as plain data, with entities nested under their parents
+	 * Encode it with HttpService:JSONEncode for bug reports
+	 */
+	dump(): WorldDump {
+		const roots = [...this.entityManager.getAllEntities()]
+			.filter((entity) => this.hierarchyManager.getParent(entity) === undefined)
+			.sort((a, b) => a < b);
+
+		return {
+			entityCount: this.entityManager.getEntityCount(),
+			archetypes: this.componentManager.getArchetypes().map((archetype) => ({
+				components: archetype.components.map((componentClass) => tostring(componentClass)),
+				tags: archetype.tags.map((tagClass) => tostring(tagClass)),
+				entityCount: archetype.entityCount,
+			})),
+			entities: roots.map((entity) => this.dumpEntity(entity)),
+		};
+	}
+
+	/**
+	 * Dumps the whole world as an indented text tree
+	 */
+	dumpText(): string {
+		return formatWorldDump(this.dump());
+	}
+
 	/**
 	 * Clear query cache for memory management
 	 */
 	clearQueryCache(): void {
 		this.componentManager.clearQueryCache();
 	}
+
+	/**
+	 * Captures all entities and their components as a plain, JSON-encodable snapshot
+	 * With a registry, components are stored under their registered names and unregistered ones are skipped;
+	 * without one, class names are used
+	 */
+	serialize(registry?: ComponentRegistry): WorldSnapshot {
+		const encoder = registry ?? new ComponentRegistry();
+		const entities: SerializedEntity[] = [];
+
+		for (const entity of this.entityManager.getAllEntities()) {
+			const components: SerializedEntity["components"] = {};
+
+			for (const [componentClass, component] of this.componentManager.getEntityComponents(entity)) {
+				const name = registry ? registry.getName(componentClass) : tostring(componentClass);
+				if (name !== undefined) {
+					components[name] = encoder.encode(componentClass, component);
+				}
+			}
+
+			const tags: string[] = [];
+			for (const tagClass of this.componentManager.getEntityTags(entity)) {
+				const name = registry ? registry.getName(tagClass) : tostring(tagClass);
+				if (name !== undefined) {
+					tags.push(name);
+				}
+			}
+
+			entities.push({ id: entity, parent: this.hierarchyManager.getParent(entity), components, tags });
+		}
+
+		const resources: WorldSnapshot["resources"] = {};
+		for (const [resourceClass, value] of this.resourceManager.getResources()) {
+			const name = registry ? registry.getName(resourceClass) : tostring(resourceClass);
+			if (name !== undefined) {
+				resources[name] = encoder.encode(resourceClass, value);
+			}
+		}
+
+		entities.sort((a, b) => a.id < b.id);
+		return { version: SNAPSHOT_VERSION, entities, resources };
+	}
+
+	/**
+	 * Spawns the entities of a snapshot into this world and sets its resources
+	 * Entity reference fields declared in the registry are remapped to the new handles
+	 * @returns A table mapping snapshot entity handles to the new handles
+	 */
+	loadSnapshot(snapshot: WorldSnapshot, registry: ComponentRegistry): Map<Entity, Entity> {
+		if (snapshot.version !== SNAPSHOT_VERSION) {
+			warn(`[ecs-lite] Loading snapshot version ${snapshot.version}, expected ${SNAPSHOT_VERSION}`);
+		}
+
+		const remap = new Map<Entity, Entity>();
+		for (const serialized of snapshot.entities) {
+			remap.set(serialized.id, this.createEntity());
+		}
+
+		this.batch(() => {
+			for (const serialized of snapshot.entities) {
+				const entity = remap.get(serialized.id)!;
+
+				const parent = serialized.parent !== undefined ? remap.get(serialized.parent) : undefined;
+				if (parent !== undefined) {
+					this.hierarchyManager.setParent(entity, parent);
+				}
+
+				for (const name of serialized.tags ?? []) {
+					const tagClass = registry.getClass(name);
+					if (tagClass === undefined) {
+						warn(`[ecs-lite] Snapshot tag "${name}" is not registered`);
+						continue;
+					}
+
+					this.componentManager.addTag(entity, tagClass);
+				}
+
+				for (const [name, data] of pairs(serialized.components)) {
+					const componentClass = registry.getClass(name as string);
+					if (componentClass === undefined) {
+						warn(`[ecs-lite] Snapshot component "${name}" is not registered`);
+						continue;
+					}
+
+					const component = registry.decode(name as string, data as SerializedComponent, remap)!;
+					this.componentManager.addComponent(entity, componentClass, component);
+				}
+			}
+		});
+
+		for (const [name, data] of pairs(snapshot.resources ?? {})) {
+			const resourceClass = registry.getClass(name as string);
+			if (resourceClass === undefined) {
+				warn(`[ecs-lite] Snapshot resource "${name}" is not registered`);
+				continue;
+			}
+
+			const value = registry.decode(name as string, data as SerializedComponent, remap)!;
+			this.setResource(resourceClass, value);
+		}
+
+		return remap;
+	}
+
+	/**
+	 * Builds a new world from a snapshot
+	 * @param snapshot A snapshot produced by serialize
+	 * @param registry Maps the snapshot's component names to component classes
+	 */
+	static deserialize(snapshot: WorldSnapshot, registry: ComponentRegistry): World {
+		const world = new World();
+		world.loadSnapshot(snapshot, registry);
+		return world;
+	}
+
+	private dumpEntity(entity: Entity): DumpedEntity {
+		const components: DumpedEntity["components"] = {};
+		for (const { class: componentClass, component } of this.componentManager.getComponentEntries(entity)) {
+			components[tostring(componentClass)] = dumpComponent(component);
+		}
+
+		return {
+			id: entity,
+			components,
+			tags: this.componentManager.getEntityTags(entity).map((tagClass) => tostring(tagClass)),
+			children: this.hierarchyManager.getChildren(entity).map((child) => this.dumpEntity(child)),
+		};
+	}
+
+	/**
+	 * Warns and returns false if a mutation targets a dead or stale entity handle
+	 */
+	private assertEntityExist(entity: Entity): boolean {
+		if (this.entityManager.entityExist(entity)) return true;
+
+		warn(`[ecs-lite] Entity ${entity} does not exist or is a stale handle`);
+		return false;
+	}
 }
 
 /**
  * Advanced query builder for fluent API
+ * R holds the required component types and O the optional ones, in the order they were listed
  */
-class QueryBuilder {
+class QueryBuilder<R extends Component[] = Component[], O extends (Component | undefined)[] = []> {
 	private componentClasses: ComponentClass[];
+	private withClasses: ComponentClass[] = [];
+	private withoutClasses: ComponentClass[] = [];
+	private anyOfClasses: ComponentClass[] = [];
+	private optionalClasses: ComponentClass[] = [];
+	private addedClasses: ComponentClass[] = [];
+	private changedClasses: ComponentClass[] = [];
+	private parentClasses: ComponentClass[] = [];
 
 	constructor(
 		private world: World,
@@ -230,36 +1029,130 @@ class QueryBuilder {
 		this.componentClasses = componentClasses;
 	}
 
+	/**
+	 * Require entities to have all of these components or tags without fetching them
+	 * Use it for tags, which have no instance to put in results
+	 */
+	with(...componentClasses: ComponentClass[]): this {
+		for (const componentClass of componentClasses) {
+			this.withClasses.push(componentClass);
+		}
+		return this;
+	}
+
+	/**
+	 * Exclude entities that have any of these components
+	 */
+	without(...componentClasses: ComponentClass[]): this {
+		for (const componentClass of componentClasses) {
+			this.withoutClasses.push(componentClass);
+		}
+		return this;
+	}
+
+	/**
+	 * Require entities to have at least one of these components
+	 */
+	anyOf(...componentClasses: ComponentClass[]): this {
+		for (const componentClass of componentClasses) {
+			this.anyOfClasses.push(componentClass);
+		}
+		return this;
+	}
+
+	/**
+	 * Fetch these components when present without requiring them
+	 * They follow the required components in results, typed as possibly undefined
+	 */
+	optional<T extends ComponentClass[]>(
+		...componentClasses: T
+	): QueryBuilder<R, [...O, ...OptionalComponentInstances<T>]> {
+		for (const componentClass of componentClasses) {
+			this.optionalClasses.push(componentClass);
+		}
+		return this as unknown as QueryBuilder<R, [...O, ...OptionalComponentInstances<T>]>;
+	}
+
+	/**
+	 * Only match entities whose components were added since the current system last ran
+	 */
+	added(...componentClasses: ComponentClass[]): this {
+		for (const componentClass of componentClasses) {
+			this.addedClasses.push(componentClass);
+		}
+		return this;
+	}
+
+	/**
+	 * Only match entities whose components were added or changed since the current system last ran
+	 */
+	changed(...componentClasses: ComponentClass[]): this {
+		for (const componentClass of componentClasses) {
+			this.changedClasses.push(componentClass);
+		}
+		return this;
+	}
+
+	/**
+	 * Only match entities whose parent has all of these components
+	 */
+	withParent(...componentClasses: ComponentClass[]): this {
+		for (const componentClass of componentClasses) {
+			this.parentClasses.push(componentClass);
+		}
+		return this;
+	}
+
 	/**
 	 * Execute the query and return entities
 	 */
 	entities(): Entity[] {
-		return this.world.getEntitiesWithComponents(this.componentClasses);
+		const entities = this.world.getEntitiesMatching({
+			all: [...this.componentClasses, ...this.withClasses],
+			none: this.withoutClasses,
+			any: this.anyOfClasses,
+			added: this.addedClasses,
+			changed: this.changedClasses,
+		});
+
+		if (this.parentClasses.size() === 0) {
+			return entities;
+		}
+
+		return entities.filter((entity) => {
+			const parent = this.world.getParent(entity);
+			return parent !== undefined && this.world.hasComponents(parent, this.parentClasses);
+		});
 	}
 
 	/**
 	 * Execute query and iterate with components
+	 * Components are the required ones followed by the optional ones, e.g. [Position, Velocity, Health | undefined]
+	 * Entities that lose a required component or are destroyed by an earlier callback are skipped
 	 */
-	forEach(callback: (entity: Entity, components: Component[]) => void): void {
-		const entities = this.entities();
-
-		for (const entity of entities) {
-			const components: Component[] = [];
-			for (const componentClass of this.componentClasses) {
-				const component = this.world.getComponent(entity, componentClass);
-				if (component) {
-					components.push(component);
-				}
-			}
-
-			if (components.size() === this.componentClasses.size()) {
+	forEach(callback: (entity: Entity, components: [...R, ...O]) => void): void {
+		this.assertNoTags();
+		for (const entity of this.entities()) {
+			const components = this.getComponents(entity);
+			if (components !== undefined) {
 				callback(entity, components);
 			}
 		}
 	}
 
+	/**
+	 * Get an entity's components if it matches the query
+	 * Checks the required, excluded, any-of and parent filters; added and changed filters are ignored
+	 */
+	get(entity: Entity): [...R, ...O] | undefined {
+		this.assertNoTags();
+		if (!this.matches(entity)) return undefined;
+		return this.getComponents(entity);
+	}
+
 	/**
 	 * Execute query and iterate with typed components (up to 4 components)
+	 * @deprecated Use forEach, which infers the component types from the query
 	 */
 	forEachTyped<
 		T1 extends Component,
@@ -267,18 +1160,20 @@ class QueryBuilder {
 		T3 extends Component = never,
 		T4 extends Component = never,
 	>(callback: (entity: Entity, c1: T1, c2?: T2, c3?: T3, c4?: T4) => void): void {
+		this.assertNoTags();
 		const entities = this.entities();
+		const componentClasses = [...this.componentClasses, ...this.optionalClasses];
 
 		for (const entity of entities) {
-			const c1 = this.world.getComponent(entity, this.componentClasses[0] as ComponentClass<T1>);
-			const c2 = this.componentClasses[1]
-				? this.world.getComponent(entity, this.componentClasses[1] as ComponentClass<T2>)
+			const c1 = this.world.getComponent(entity, componentClasses[0] as ComponentClass<T1>);
+			const c2 = componentClasses[1]
+				? this.world.getComponent(entity, componentClasses[1] as ComponentClass<T2>)
 				: undefined;
-			const c3 = this.componentClasses[2]
-				? this.world.getComponent(entity, this.componentClasses[2] as ComponentClass<T3>)
+			const c3 = componentClasses[2]
+				? this.world.getComponent(entity, componentClasses[2] as ComponentClass<T3>)
 				: undefined;
-			const c4 = this.componentClasses[3]
-				? this.world.getComponent(entity, this.componentClasses[3] as ComponentClass<T4>)
+			const c4 = componentClasses[3]
+				? this.world.getComponent(entity, componentClasses[3] as ComponentClass<T4>)
 				: undefined;
 
 			if (c1) {
@@ -287,6 +1182,45 @@ class QueryBuilder {
 		}
 	}
 
+	/**
+	 * Iterate matching archetypes without allocating per entity
+	 * Columns hold the required components followed by the optional ones; an optional column is empty
+	 * in archetypes without that component. Read row i of each column for entities[i], for i below count.
+	 * Components may be mutated in place (call markChanged to flag them), but adding or removing components
+	 * and destroying entities error until iteration ends; queue them on world.commands instead.
+	 */
+	forEachChunk(
+		callback: (entities: readonly Entity[], columns: ReadonlyArray<readonly Component[]>, count: number) => void,
+	): void {
+		if (this.addedClasses.size() > 0 || this.changedClasses.size() > 0 || this.parentClasses.size() > 0) {
+			error("[ecs-lite] forEachChunk doesn't support added, changed or withParent filters; use forEach instead");
+		}
+		this.assertNoTags();
+
+		this.world.forEachChunk(
+			{ all: [...this.componentClasses, ...this.withClasses], none: this.withoutClasses, any: this.anyOfClasses },
+			[...this.componentClasses, ...this.optionalClasses],
+			callback,
+		);
+	}
+
+	/**
+	 * Call back when entities start or stop matching the query because components or tags are added or removed,
+	 * or entities are destroyed
+	 * Entities that already match don't trigger onEnter; iterate them with forEach first if needed
+	 * @returns A function that stops the observer
+	 */
+	observe(observer: QueryObserver): () => void {
+		if (this.addedClasses.size() > 0 || this.changedClasses.size() > 0 || this.parentClasses.size() > 0) {
+			error("[ecs-lite] observe doesn't support added, changed or withParent filters");
+		}
+
+		return this.world.observe(
+			{ all: [...this.componentClasses, ...this.withClasses], none: this.withoutClasses, any: this.anyOfClasses },
+			observer,
+		);
+	}
+
 	/**
 	 * Count entities matching the query
 	 */
@@ -302,10 +1236,68 @@ class QueryBuilder {
 	}
 
 	/**
-	 * Get the first entity matching the query
+	 * Get the first entity matching the query, with its components
 	 */
-	first(): Entity | undefined {
-		const entities = this.entities();
-		return entities.size() > 0 ? entities[0] : undefined;
+	first(): [Entity, [...R, ...O]] | undefined {
+		this.assertNoTags();
+		for (const entity of this.entities()) {
+			const components = this.getComponents(entity);
+			if (components !== undefined) {
+				return [entity, components];
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Errors if a tag was listed among the fetched components, since it has no instance to return
+	 */
+	private assertNoTags(): void {
+		for (const componentClass of [...this.componentClasses, ...this.optionalClasses]) {
+			if (this.world.isTag(componentClass)) {
+				error(
+					`[ecs-lite] ${tostring(componentClass)} is a tag and has no component to fetch; filter with .with instead`,
+				);
+			}
+		}
+	}
+
+	/**
+	 * Fetches the required then optional components of an entity, leaving missing optional ones undefined
+	 * @returns The components, or undefined if a required one is gone, e.g. removed by an earlier callback
+	 */
+	private getComponents(entity: Entity): [...R, ...O] | undefined {
+		const components: (Component | undefined)[] = [];
+		const required = this.componentClasses.size();
+		for (let i = 0; i < required; i++) {
+			const component = this.world.getComponent(entity, this.componentClasses[i]);
+			if (component === undefined) return undefined;
+			components[i] = component;
+		}
+		for (let i = 0; i < this.optionalClasses.size(); i++) {
+			components[required + i] = this.world.getComponent(entity, this.optionalClasses[i]);
+		}
+		return components as unknown as [...R, ...O];
+	}
+
+	/**
+	 * Checks an entity against the query's structural filters
+	 */
+	private matches(entity: Entity): boolean {
+		if (!this.world.hasComponents(entity, [...this.componentClasses, ...this.withClasses])) return false;
+		if (this.withoutClasses.some((componentClass) => this.world.hasComponent(entity, componentClass))) {
+			return false;
+		}
+		if (
+			this.anyOfClasses.size() > 0 &&
+			!this.anyOfClasses.some((componentClass) => this.world.hasComponent(entity, componentClass))
+		) {
+			return false;
+		}
+		if (this.parentClasses.size() > 0) {
+			const parent = this.world.getParent(entity);
+			return parent !== undefined && this.world.hasComponents(parent, this.parentClasses);
+		}
+		return true;
 	}
 }